@@ -0,0 +1,113 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import opentype from 'opentype.js';
+import { RAMP_PRESETS, orderRampByCoverage } from '../src/ascii-tg-shader';
+
+/**
+ * Measures the ink of every RAMP_PRESETS glyph in DejaVu Sans Mono Bold, as a fraction
+ * of its cell, into tests/fixtures/glyph-coverage.json, then prints each preset in
+ * coverage order for COVERAGE_SORTED_RAMPS. Glyphs the font lacks (braille) come from
+ * DejaVu Sans Bold, as a browser's font fallback would draw them.
+ *
+ *     bun run measure-coverage
+ */
+
+const FONTS = ['DejaVuSansMono-Bold.ttf', 'DejaVuSans-Bold.ttf'];
+// Scanlines per em; enough that the rounding below doesn't reorder anything
+const ROWS_PER_EM = 512;
+// Segments each curve is flattened into
+const CURVE_STEPS = 16;
+const OUTPUT = new URL('../tests/fixtures/glyph-coverage.json', import.meta.url);
+
+const require = createRequire(import.meta.url);
+const fonts = FONTS.map(file => {
+    const bytes = readFileSync(require.resolve(`dejavu-fonts-ttf/ttf/${file}`));
+    return opentype.parse(new Uint8Array(bytes).buffer);
+});
+
+type Point = [number, number];
+
+// The glyph's contours as closed polygons, in font units with y pointing down
+function contours(font: opentype.Font, char: string): Point[][] {
+    const polygons: Point[][] = [];
+    let current: Point[] = [];
+    let [x, y] = [0, 0];
+
+    for (const command of font.getPath(char, 0, 0, font.unitsPerEm).commands) {
+        if (command.type === 'M') {
+            current = [[command.x, command.y]];
+            polygons.push(current);
+        } else if (command.type === 'L') {
+            current.push([command.x, command.y]);
+        } else if (command.type === 'Q') {
+            for (let step = 1; step <= CURVE_STEPS; step++) {
+                const t = step / CURVE_STEPS;
+                const u = 1 - t;
+                current.push([
+                    u * u * x + 2 * u * t * command.x1 + t * t * command.x,
+                    u * u * y + 2 * u * t * command.y1 + t * t * command.y,
+                ]);
+            }
+        } else if (command.type === 'C') {
+            for (let step = 1; step <= CURVE_STEPS; step++) {
+                const t = step / CURVE_STEPS;
+                const u = 1 - t;
+                current.push([
+                    u * u * u * x + 3 * u * u * t * command.x1 + 3 * u * t * t * command.x2 + t * t * t * command.x,
+                    u * u * u * y + 3 * u * u * t * command.y1 + 3 * u * t * t * command.y2 + t * t * t * command.y,
+                ]);
+            }
+        }
+        if (command.type !== 'Z') [x, y] = [command.x, command.y];
+    }
+    return polygons;
+}
+
+// Filled area under the non-zero rule, one scanline at a time, so overlapping contours count once
+function inkArea(polygons: Point[][], top: number, bottom: number): number {
+    const rowHeight = 1 / ROWS_PER_EM;
+    let area = 0;
+    for (let y = top + rowHeight / 2; y < bottom; y += rowHeight) {
+        const crossings: [number, number][] = [];
+        for (const polygon of polygons) {
+            polygon.forEach(([x1, y1], i) => {
+                const [x2, y2] = polygon[(i + 1) % polygon.length];
+                if ((y1 <= y) !== (y2 <= y)) crossings.push([x1 + (y - y1) / (y2 - y1) * (x2 - x1), y2 > y1 ? 1 : -1]);
+            });
+        }
+        crossings.sort((a, b) => a[0] - b[0]);
+
+        let winding = 0;
+        crossings.forEach(([x, direction], i) => {
+            if (winding !== 0) area += (x - crossings[i - 1][0]) * rowHeight;
+            winding += direction;
+        });
+    }
+    return area;
+}
+
+// Ink over the cell of advance by line height, with the em scaled to 1
+function coverage(char: string): number {
+    const font = fonts.find(f => f.charToGlyph(char).index !== 0);
+    if (!font) throw new Error(`No font has a glyph for "${char}"`);
+
+    const em = font.unitsPerEm;
+    const polygons = contours(font, char).map(polygon => polygon.map(([x, y]): Point => [x / em, y / em]));
+    const ascender = font.ascender / em;
+    const descender = font.descender / em;
+    const advance = font.charToGlyph(char).advanceWidth! / em;
+    // Generous bounds: accents and braille dots may reach past the ascender
+    return inkArea(polygons, -ascender - 0.5, -descender + 0.5) / (advance * (ascender - descender));
+}
+
+const measured: Record<string, number> = {};
+for (const ramp of Object.values(RAMP_PRESETS)) {
+    for (const char of ramp) measured[char] ??= Math.round(coverage(char) * 1e4) / 1e4;
+}
+writeFileSync(OUTPUT, JSON.stringify(measured, null, 2) + '\n');
+
+for (const [name, ramp] of Object.entries(RAMP_PRESETS)) {
+    const chars = Array.from(ramp);
+    const sorted = orderRampByCoverage(chars, chars.map(char => measured[char])).chars.join('');
+    console.log(`${name}: ${JSON.stringify(sorted)},`);
+}
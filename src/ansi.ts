@@ -0,0 +1,49 @@
+import type { AsciiFrame } from './ascii-frame';
+import { ANSI_16, XTERM_256, nearestPaletteIndex } from './palettes';
+
+export type AnsiColorMode = 'none' | '16' | '256' | 'truecolor';
+
+export const ANSI_RESET = '\x1b[0m';
+
+function to255(value: number): number {
+    return Math.round(Math.min(Math.max(value, 0), 1) * 255);
+}
+
+export function ansiForeground(r: number, g: number, b: number, mode: AnsiColorMode): string {
+    if (mode === 'truecolor') return `\x1b[38;2;${to255(r)};${to255(g)};${to255(b)}m`;
+    if (mode === '256') return `\x1b[38;5;${nearestPaletteIndex([r, g, b], XTERM_256)}m`;
+    if (mode === '16') {
+        const index = nearestPaletteIndex([r, g, b], ANSI_16);
+        return `\x1b[${index < 8 ? 30 + index : 82 + index}m`;
+    }
+    return '';
+}
+
+/**
+ * Colours every character with the scene colour behind its cell. Escape codes are
+ * only emitted when the colour changes, and each line ends with a reset.
+ */
+export function frameToAnsi(frame: AsciiFrame, mode: AnsiColorMode): string[] {
+    if (mode === 'none') return frame.lines;
+
+    return frame.lines.map((line, row) => {
+        const chars = Array.from(line);
+        let out = '';
+        let current = '';
+        for (let col = 0; col < frame.columns; col++) {
+            const char = chars[col];
+            if (char === ' ') {
+                out += char;
+                continue;
+            }
+            const cell = (row * frame.columns + col) * 3;
+            const code = ansiForeground(frame.colors[cell], frame.colors[cell + 1], frame.colors[cell + 2], mode);
+            if (code !== current) {
+                out += code;
+                current = code;
+            }
+            out += char;
+        }
+        return out + ANSI_RESET;
+    });
+}
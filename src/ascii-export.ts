@@ -0,0 +1,112 @@
+import type { AsciiFrame } from './ascii-frame';
+import type { Vec3 } from './geometries/vec3';
+import { toHexColor } from './palettes';
+
+export interface MarkupExportOptions {
+    fontFamily?: string;
+    // Font size in px; SVG cells are this tall
+    fontSize?: number;
+    // Width of a cell relative to its height
+    cellAspect?: number;
+    background?: Vec3 | null;
+}
+
+const DEFAULT_MARKUP_OPTIONS: Required<MarkupExportOptions> = {
+    fontFamily: 'ui-monospace, Menlo, Consolas, monospace',
+    fontSize: 12,
+    cellAspect: 0.6,
+    background: null,
+};
+
+interface ColorRun {
+    start: number;
+    text: string;
+    color: string;
+}
+
+function escapeMarkup(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Splits a row into runs of one colour; spaces join whichever run they're in
+function colorRuns(frame: AsciiFrame, row: number): ColorRun[] {
+    const runs: ColorRun[] = [];
+
+    Array.from(frame.lines[row]).forEach((char, col) => {
+        const last = runs[runs.length - 1];
+        if (char === ' ') {
+            if (last) last.text += char;
+            else runs.push({ start: col, text: char, color: '' });
+            return;
+        }
+
+        const cell = (row * frame.columns + col) * 3;
+        const color = toHexColor([frame.colors[cell], frame.colors[cell + 1], frame.colors[cell + 2]]);
+        if (last && (last.color === color || last.color === '')) {
+            last.text += char;
+            last.color = color;
+        } else {
+            runs.push({ start: col, text: char, color });
+        }
+    });
+
+    return runs;
+}
+
+export function frameToText(frame: AsciiFrame): string {
+    return frame.lines.map(line => line.trimEnd()).join('\n') + '\n';
+}
+
+/**
+ * A self-contained `<pre>` with one coloured `<span>` per run of equal colour.
+ */
+export function frameToHtml(frame: AsciiFrame, options: MarkupExportOptions = {}): string {
+    const { fontFamily, fontSize, background } = { ...DEFAULT_MARKUP_OPTIONS, ...options };
+    const style = [
+        `font-family: ${fontFamily}`,
+        `font-size: ${fontSize}px`,
+        'line-height: 1',
+        ...(background ? [`background: ${toHexColor(background)}`] : []),
+    ].join('; ');
+
+    const rows = frame.lines.map((_, row) => colorRuns(frame, row)
+        .map(run => run.color === ''
+            ? run.text
+            : `<span style="color: ${run.color}">${escapeMarkup(run.text)}</span>`)
+        .join(''));
+
+    return `<pre style="${escapeMarkup(style)}">${rows.join('\n')}</pre>\n`;
+}
+
+/**
+ * One `<text>` per row with a positioned `<tspan>` per colour run, so columns stay
+ * aligned whatever font the viewer substitutes.
+ */
+export function frameToSvg(frame: AsciiFrame, options: MarkupExportOptions = {}): string {
+    const { fontFamily, fontSize, cellAspect, background } = { ...DEFAULT_MARKUP_OPTIONS, ...options };
+    const cellWidth = fontSize * cellAspect;
+    const width = frame.columns * cellWidth;
+    const height = frame.rows * fontSize;
+
+    const rows = frame.lines.map((_, row) => {
+        const spans = colorRuns(frame, row)
+            .filter(run => run.color !== '')
+            .map(run => {
+                const text = run.text.trim();
+                const start = run.start + run.text.length - run.text.trimStart().length;
+                return `<tspan x="${(start * cellWidth).toFixed(2)}" textLength="${(Array.from(text).length * cellWidth).toFixed(2)}"`
+                    + ` fill="${run.color}">${escapeMarkup(text)}</tspan>`;
+            })
+            .join('');
+        return spans ? `  <text y="${((row + 0.8) * fontSize).toFixed(2)}">${spans}</text>` : '';
+    }).filter(Boolean);
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"`
+            + ` font-family="${escapeMarkup(fontFamily)}" font-size="${fontSize}" xml:space="preserve">`,
+        ...(background ? [`  <rect width="100%" height="100%" fill="${toHexColor(background)}"/>`] : []),
+        ...rows,
+        '</svg>',
+        '',
+    ].join('\n');
+}
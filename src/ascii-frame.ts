@@ -0,0 +1,11 @@
+/**
+ * A rendered ASCII image as characters rather than pixels.
+ */
+export interface AsciiFrame {
+    columns: number;
+    rows: number;
+    // One string per row, `columns` characters long; empty cells are spaces
+    lines: string[];
+    // Glyph colour of each cell, row-major RGB in 0..1
+    colors: Float32Array;
+}
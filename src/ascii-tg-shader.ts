@@ -1,12 +1,287 @@
 import { f32, vec2f, vec3f, struct } from 'typegpu/data';
+import type { Vec3 } from './geometries/vec3';
+import { MAX_PALETTE_SIZE, parseHexColor } from './palettes';
 
-const CHAR_SET = ".:-=+*%#@";
+export const CHAR_SET = ".:-=+*%#@";
 
-export function createAsciiTexture(device: GPUDevice): GPUTexture {
-    const fontSize = 64;
-    const charCount = CHAR_SET.length;
-    const width = charCount * fontSize;
-    const height = fontSize;
+// Character ramps, ordered from sparsest to densest. A leading blank is the ramp's
+// empty step; covered cells skip it (see firstInkedStep)
+export const RAMP_PRESETS: Record<string, string> = {
+    simple: CHAR_SET,
+    standard: " .'`^\",:;Il!i><~+_-?][}{1)(|\\/tfjrxnuvczXYUJCLQ0OZmwqpdbkhao*#MW&8%B@$",
+    blocks: " ░▒▓█",
+    braille: "⠀⠁⠃⠇⠏⠟⠿⡿⣿",
+};
+
+// RAMP_PRESETS in the order sortByCoverage puts them, for the CPU renderer, which has
+// no canvas to measure with. `bun run measure-coverage` measures them in DejaVu Sans
+// Mono Bold into tests/fixtures/glyph-coverage.json and prints this table; a test
+// keeps the two in step. Browsers sort in the font they actually draw with, so their
+// order can differ a little.
+export const COVERAGE_SORTED_RAMPS: Record<string, string> = {
+    simple: ".-:*+=%#@",
+    standard: " `.'-,_~:^\";!/\\*><+|r)(?c][vlLzxt%}{fi1JYjCnuoIwakXh$Zmqpdb#U8&O0WQ@MB",
+    blocks: " ░▒▓█",
+    braille: "⠀⠁⠃⠇⠏⠟⠿⡿⣿",
+};
+
+export type ColorMode = 'scene' | 'tint' | 'palette';
+
+export interface AsciiOptions {
+    // Preset name from RAMP_PRESETS or a literal ramp, sparsest character first
+    charSet: string;
+    fontFamily: string;
+    fontWeight: string;
+    // On-screen cell height in CSS pixels
+    fontSize: number;
+    // Cell width over height; null takes the font's own advance and line height
+    cellAspect: number | null;
+    // Fit exactly this many columns across the frame, overriding fontSize; null keeps fontSize
+    columns: number | null;
+    // Reorder the ramp by each glyph's measured ink coverage in this font
+    sortByCoverage: boolean;
+    // Resample the sorted ramp so consecutive steps differ by equal coverage
+    normalizeSpacing: boolean;
+    // Draw line glyphs along silhouettes and creases instead of density glyphs
+    edges: boolean;
+    // Minimum normal/depth gradient that counts as an edge
+    edgeThreshold: number;
+    // Glyph colour: the scene colour behind it, a single tint, or the nearest palette entry
+    colorMode: ColorMode;
+    // Tint for 'tint' mode
+    color: Vec3;
+    // Opaque background behind the glyphs; null keeps the canvas transparent
+    background: Vec3 | null;
+    // Palette name from PALETTES or explicit colours, for 'palette' mode
+    palette: string | Vec3[];
+    // Map bright areas to dense glyphs instead of sparse ones
+    invertRamp: boolean;
+}
+
+export const DEFAULT_ASCII_OPTIONS: AsciiOptions = {
+    charSet: 'simple',
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+    fontSize: 6,
+    cellAspect: null,
+    columns: null,
+    sortByCoverage: true,
+    normalizeSpacing: false,
+    edges: false,
+    edgeThreshold: 0.6,
+    colorMode: 'scene',
+    color: [1, 1, 1],
+    background: null,
+    palette: 'xterm256',
+    invertRamp: false,
+};
+
+export const COLOR_PRESETS: Record<string, Partial<AsciiOptions>> = {
+    greenPhosphor: { colorMode: 'tint', color: parseHexColor('#33ff66'), background: parseHexColor('#021207'), invertRamp: true },
+    amber: { colorMode: 'tint', color: parseHexColor('#ffb000'), background: parseHexColor('#140c00'), invertRamp: true },
+    paper: { colorMode: 'tint', color: parseHexColor('#1b1b1b'), background: parseHexColor('#f4f1e8'), invertRamp: false },
+    ansi16: { colorMode: 'palette', palette: 'ansi16' },
+    xterm256: { colorMode: 'palette', palette: 'xterm256' },
+};
+
+// Options baked into the glyph atlas; changing any other one only touches uniforms
+export const ATLAS_OPTIONS: (keyof AsciiOptions)[] = ['charSet', 'fontFamily', 'fontWeight', 'sortByCoverage', 'normalizeSpacing'];
+
+export const COLOR_MODES: Record<ColorMode, number> = {
+    scene: 0,
+    tint: 1,
+    palette: 2,
+};
+
+// Appended to the atlas after the ramp, in the order asciiFragmentShader picks them
+export const EDGE_CHARS = ['|', '/', '-', '\\', '_'];
+
+// Font size glyphs are drawn at inside the atlas texture
+const ATLAS_GLYPH_SIZE = 64;
+const ATLAS_MAX_COLUMNS = 16;
+
+export interface GlyphAtlas {
+    texture: GPUTexture;
+    chars: string[];
+    // Fraction of each glyph's cell covered by ink, parallel to `chars`
+    coverage: number[];
+    columns: number;
+    rows: number;
+    // Measured advance over line height of the font, which each atlas cell also has
+    cellAspect: number;
+}
+
+/**
+ * Splits a preset name or literal ramp into characters (code points, so braille
+ * and block elements count once each).
+ */
+export function resolveCharSet(charSet: string): string[] {
+    const chars = Array.from(RAMP_PRESETS[charSet] ?? charSet);
+    if (chars.length === 0) {
+        throw new Error('ASCII character set must not be empty');
+    }
+    return chars;
+}
+
+/**
+ * Sorts glyphs from least to most ink. With `normalize`, the ramp is resampled to
+ * the same length so step k holds the glyph whose coverage is closest to an even
+ * k / (n - 1) share of the range; glyphs may repeat or drop out.
+ */
+export function orderRampByCoverage(chars: string[], coverage: number[], normalize: boolean = false): { chars: string[]; coverage: number[] } {
+    const sorted = chars
+        .map((char, i) => ({ char, coverage: coverage[i] }))
+        .sort((a, b) => a.coverage - b.coverage);
+
+    if (!normalize || sorted.length < 2) {
+        return { chars: sorted.map(g => g.char), coverage: sorted.map(g => g.coverage) };
+    }
+
+    const min = sorted[0].coverage;
+    const range = sorted[sorted.length - 1].coverage - min || 1;
+    const steps = sorted.map((_, k) => {
+        const target = k / (sorted.length - 1);
+        return sorted.reduce((best, g) =>
+            Math.abs((g.coverage - min) / range - target) < Math.abs((best.coverage - min) / range - target) ? g : best);
+    });
+
+    return { chars: steps.map(g => g.char), coverage: steps.map(g => g.coverage) };
+}
+
+interface CellMetrics {
+    // Atlas cell size in pixels at ATLAS_GLYPH_SIZE
+    width: number;
+    height: number;
+}
+
+// One character's advance by the font's line height, as a terminal lays out cells
+function measureCell(font: string, glyphSize: number): CellMetrics {
+    const context = document.createElement('canvas').getContext('2d');
+    if (!context) {
+        throw new Error('Could not create 2D context for glyph measurement');
+    }
+
+    context.font = font;
+    const metrics = context.measureText('M');
+    const lineHeight = metrics.fontBoundingBoxAscent + metrics.fontBoundingBoxDescent;
+    return {
+        width: Math.max(Math.round(metrics.width || glyphSize * 0.6), 1),
+        height: Math.max(Math.round(lineHeight || glyphSize * 1.2), 1),
+    };
+}
+
+function measureCoverage(chars: string[], font: string, cell: CellMetrics): number[] {
+    const canvas = document.createElement('canvas');
+    canvas.width = cell.width;
+    canvas.height = cell.height;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+
+    if (!context) {
+        throw new Error('Could not create 2D context for glyph measurement');
+    }
+
+    context.font = font;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+
+    return chars.map(char => {
+        context.fillStyle = '#000000';
+        context.fillRect(0, 0, cell.width, cell.height);
+        context.fillStyle = '#ffffff';
+        context.fillText(char, cell.width / 2, cell.height / 2);
+
+        const pixels = context.getImageData(0, 0, cell.width, cell.height).data;
+        let ink = 0;
+        for (let i = 0; i < pixels.length; i += 4) ink += pixels[i];
+        return ink / (255 * cell.width * cell.height);
+    });
+}
+
+// Cell aspect per CSS font at ATLAS_GLYPH_SIZE; drawing an atlas refreshes its entry
+const cellAspects = new Map<string, number>();
+
+/**
+ * Width over height of a cell in this font: its advance by its line height, so glyphs
+ * keep their proportions. What `cellAspect: null` resolves to. Measured once per font,
+ * since it's asked for on every ASCII option change.
+ */
+export function measureCellAspect(options: Pick<AsciiOptions, 'fontFamily' | 'fontWeight'>): number {
+    const font = `${options.fontWeight} ${ATLAS_GLYPH_SIZE}px ${options.fontFamily}`;
+    let aspect = cellAspects.get(font);
+    if (aspect === undefined) {
+        const cell = measureCell(font, ATLAS_GLYPH_SIZE);
+        aspect = cell.width / cell.height;
+        cellAspects.set(font, aspect);
+    }
+    return aspect;
+}
+
+/**
+ * Cell width and height in pixels for a frame `width` pixels wide. `pixelRatio` is
+ * pixels per CSS pixel; `measuredAspect` stands in for a null `cellAspect`.
+ */
+export function cellSizeFor(options: AsciiOptions, measuredAspect: number, width: number, pixelRatio: number): [number, number] {
+    const aspect = options.cellAspect ?? measuredAspect;
+    if (options.columns) {
+        const cellWidth = width / options.columns;
+        return [cellWidth, cellWidth / aspect];
+    }
+    const cellHeight = options.fontSize * pixelRatio;
+    return [cellHeight * aspect, cellHeight];
+}
+
+// Columns and rows covering the frame; the last of each may be cut off
+export function gridSizeFor(cellSize: [number, number], width: number, height: number): { columns: number; rows: number } {
+    // Snapped grids divide exactly, which rounding must not turn into an extra column
+    return {
+        columns: Math.ceil(width / cellSize[0] - 1e-4),
+        rows: Math.ceil(height / cellSize[1] - 1e-4),
+    };
+}
+
+/**
+ * The ramp step the solid's cells start from: 1 when the ramp opens with a blank (a
+ * space or the empty braille pattern), which would show up as holes in the solid, else
+ * 0. The blank stays the ramp's first step for exports and anything reading `chars`.
+ */
+export function firstInkedStep(chars: string[]): number {
+    return chars.length > 1 && /^[\s\u2800]$/u.test(chars[0]) ? 1 : 0;
+}
+
+// CPU mirror of the ramp lookup in asciiFragmentShader
+export function rampIndex(r: number, g: number, b: number, charCount: number, invert: boolean = false, firstStep: number = 0): number {
+    const luma = r * 0.299 + g * 0.587 + b * 0.114;
+    const luminance = invert ? luma : 1.0 - luma;
+    return Math.min(Math.max(firstStep + Math.floor(luminance * (charCount - 1 - firstStep)), firstStep), charCount - 1);
+}
+
+export interface GlyphAtlasImage extends Omit<GlyphAtlas, 'texture'> {
+    canvas: HTMLCanvasElement;
+}
+
+/**
+ * Draws the ramp, followed by EDGE_CHARS, white on black into a canvas, wrapping onto
+ * more rows once it is wider than ATLAS_MAX_COLUMNS glyphs. Each glyph gets a cell of
+ * the font's advance by its line height.
+ */
+export function drawGlyphAtlas(options: AsciiOptions = DEFAULT_ASCII_OPTIONS): GlyphAtlasImage {
+    const glyphSize = ATLAS_GLYPH_SIZE;
+    const font = `${options.fontWeight} ${glyphSize}px ${options.fontFamily}`;
+    const cell = measureCell(font, glyphSize);
+    // A web font may have finished loading since the last measurement
+    cellAspects.set(font, cell.width / cell.height);
+    let chars = resolveCharSet(options.charSet);
+    let coverage = measureCoverage(chars, font, cell);
+    if (options.sortByCoverage) {
+        ({ chars, coverage } = orderRampByCoverage(chars, coverage, options.normalizeSpacing));
+    }
+
+    const glyphs = [...chars, ...EDGE_CHARS];
+    const charCount = glyphs.length;
+    const columns = Math.min(charCount, ATLAS_MAX_COLUMNS);
+    const rows = Math.ceil(charCount / columns);
+    const width = columns * cell.width;
+    const height = rows * cell.height;
 
     const canvas = document.createElement('canvas');
     canvas.width = width;
@@ -19,20 +294,26 @@ export function createAsciiTexture(device: GPUDevice): GPUTexture {
 
     context.fillStyle = '#000000';
     context.fillRect(0, 0, width, height);
-    context.font = `bold ${fontSize}px monospace`;
+    context.font = font;
     context.textAlign = 'center';
     context.textBaseline = 'middle';
     context.fillStyle = '#ffffff';
 
     for (let i = 0; i < charCount; i++) {
-        const char = CHAR_SET[i];
-        const x = i * fontSize + fontSize / 2;
-        const y = fontSize / 2;
+        const char = glyphs[i];
+        const x = (i % columns) * cell.width + cell.width / 2;
+        const y = Math.floor(i / columns) * cell.height + cell.height / 2;
         context.fillText(char, x, y);
     }
 
+    return { canvas, chars, coverage, columns, rows, cellAspect: cell.width / cell.height };
+}
+
+export function createAsciiTexture(device: GPUDevice, options: AsciiOptions = DEFAULT_ASCII_OPTIONS): GlyphAtlas {
+    const { canvas, ...atlas } = drawGlyphAtlas(options);
+
     const texture = device.createTexture({
-        size: [width, height, 1],
+        size: [canvas.width, canvas.height, 1],
         format: 'rgba8unorm',
         usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST | GPUTextureUsage.RENDER_ATTACHMENT,
     });
@@ -40,66 +321,212 @@ export function createAsciiTexture(device: GPUDevice): GPUTexture {
     device.queue.copyExternalImageToTexture(
         { source: canvas },
         { texture: texture },
-        [width, height]
+        [canvas.width, canvas.height]
     );
 
-    return texture;
+    return { texture, ...atlas };
 }
 
 export const AsciiParams = struct({
-    uCharCount: f32,
-    uFontSize: f32,
+    uCellSize: vec2f,
     uResolution: vec2f,
     uColor: vec3f,
+    uAtlasColumns: f32,
     uBgColor: vec3f,
+    uAtlasRows: f32,
+    uEdgeThreshold: f32,
+    uColorMode: f32,
+    uInvert: f32,
+    uBgAlpha: f32,
+    uCharCount: f32,
+    uFirstStep: f32,
 });
 
-export const asciiVertexShader = `
-struct VertexOutput {
-    @builtin(position) position: vec4f,
-    @location(0) uv: vec2f,
+export const ASCII_UNIFORM_SIZE = 80;
+
+/**
+ * Packs the `AsciiParams` struct. `cellSize` is width and height in output pixels, as
+ * from cellSizeFor; the layout is also valid std140, so the WebGL2 renderer uploads
+ * the same bytes.
+ */
+export function packAsciiUniforms(options: AsciiOptions, atlas: Pick<GlyphAtlas, 'chars' | 'columns' | 'rows'>, cellSize: [number, number], width: number, height: number): Float32Array<ArrayBuffer> {
+    return new Float32Array([
+        ...cellSize, // uCellSize
+        width, height, // uResolution
+        ...options.color, // uColor
+        atlas.columns, // uAtlasColumns
+        ...(options.background ?? [0, 0, 0]), // uBgColor
+        atlas.rows, // uAtlasRows
+        options.edges ? options.edgeThreshold : 0, // uEdgeThreshold
+        COLOR_MODES[options.colorMode], // uColorMode
+        options.invertRamp ? 1 : 0, // uInvert
+        options.background ? 1 : 0, // uBgAlpha
+        atlas.chars.length, // uCharCount
+        firstInkedStep(atlas.chars), // uFirstStep
+        0, 0,
+    ]);
 }
 
-@vertex
-fn main(@location(0) pos: vec2f) -> VertexOutput {
-    var out: VertexOutput;
-    out.position = vec4f(pos, 0.0, 1.0);
-    out.uv = (pos + 1.0) * 0.5;
-    out.uv.y = 1.0 - out.uv.y; // Flip Y for screen space
-    return out;
+// vec4f count + MAX_PALETTE_SIZE vec4f colours
+export const PALETTE_UNIFORM_SIZE = (1 + MAX_PALETTE_SIZE) * 16;
+
+export function packPaletteUniforms(palette: Vec3[]): Float32Array<ArrayBuffer> {
+    const data = new Float32Array(PALETTE_UNIFORM_SIZE / 4);
+    data[0] = palette.length;
+    palette.forEach((color, i) => data.set(color, 4 + i * 4));
+    return data;
 }
-`;
 
+// Drawn with the fullscreen vertex shader in effects/effect.ts
 export const asciiFragmentShader = `
 @group(0) @binding(0) var tDiffuse: texture_2d<f32>;
 @group(0) @binding(1) var tFont: texture_2d<f32>;
 @group(0) @binding(2) var sSampler: sampler;
 @group(0) @binding(3) var<uniform> params: AsciiParams;
+@group(0) @binding(4) var tSurface: texture_2d<f32>;
 
 struct AsciiParams {
-    uCharCount: f32,
-    uFontSize: f32,
+    uCellSize: vec2f,    // output pixels
     uResolution: vec2f,
     uColor: vec3f,
+    uAtlasColumns: f32,
     uBgColor: vec3f,
+    uAtlasRows: f32,
+    uEdgeThreshold: f32, // <= 0 disables edge glyphs
+    uColorMode: f32,     // 0 scene, 1 tint, 2 palette
+    uInvert: f32,
+    uBgAlpha: f32,       // 0 transparent, 1 opaque uBgColor
+    uCharCount: f32,
+    uFirstStep: f32,     // 1 skips a leading blank, see firstInkedStep
+}
+
+struct Palette {
+    info: vec4f, // x = colour count
+    colors: array<vec4f, ${MAX_PALETTE_SIZE}>,
+}
+
+@group(0) @binding(5) var<uniform> palette: Palette;
+
+fn quantize(color: vec3f) -> vec3f {
+    var best = palette.colors[0].rgb;
+    var bestDistance = 1e9;
+    for (var i = 0u; i < u32(palette.info.x); i++) {
+        let d = palette.colors[i].rgb - color;
+        let distance = dot(d, d);
+        if (distance < bestDistance) {
+            best = palette.colors[i].rgb;
+            bestDistance = distance;
+        }
+    }
+    return best;
+}
+
+const SOBEL_X = array<f32, 9>(-1.0, 0.0, 1.0, -2.0, 0.0, 2.0, -1.0, 0.0, 1.0);
+const SOBEL_Y = array<f32, 9>(-1.0, -2.0, -1.0, 0.0, 0.0, 0.0, 1.0, 2.0, 1.0);
+
+struct Edge {
+    strength: f32,
+    glyph: f32, // index into EDGE_CHARS
+    color: vec4f,
+}
+
+// Sobel over the surface buffer (normal.xyz, inverse depth) sampled on a half-cell grid.
+// The structure tensor of the four channels gives one gradient orientation per cell.
+fn detectEdge(cellCenter: vec2f, cellSize: vec2f) -> Edge {
+    var gx = vec4f(0.0);
+    var gy = vec4f(0.0);
+    var coverageGy = 0.0;
+    var colorSum = vec4f(0.0);
+
+    for (var i = 0; i < 9; i++) {
+        let offset = vec2f(f32(i % 3) - 1.0, f32(i / 3) - 1.0) * 0.5 * cellSize;
+        let surface = textureSampleLevel(tSurface, sSampler, cellCenter + offset, 0.0);
+        gx += surface * SOBEL_X[i];
+        gy += surface * SOBEL_Y[i];
+        coverageGy += select(0.0, 1.0, surface.w > 0.0) * SOBEL_Y[i];
+
+        let color = textureSampleLevel(tDiffuse, sSampler, cellCenter + offset, 0.0);
+        colorSum += vec4f(color.rgb * color.a, color.a);
+    }
+
+    let jxx = dot(gx, gx);
+    let jyy = dot(gy, gy);
+    let jxy = dot(gx, gy);
+
+    // Gradient angle in [0, pi), y pointing down; the edge runs perpendicular to it
+    let angle = 0.5 * atan2(2.0 * jxy, jxx - jyy);
+    let bucket = u32(round((angle + 3.14159265) / 0.78539816)) % 4u;
+    var glyph = f32(bucket);
+    // Horizontal edge with the solid above it sits on the baseline
+    if (bucket == 2u && coverageGy < 0.0) {
+        glyph = 4.0;
+    }
+
+    var edge: Edge;
+    edge.strength = sqrt(jxx + jyy);
+    edge.glyph = glyph;
+    edge.color = vec4f(colorSum.rgb / max(colorSum.a, 1e-4), 1.0);
+    return edge;
+}
+
+struct Cell {
+    charIndex: f32,
+    color: vec4f, // glyph colour, a = scene coverage
+}
+
+// Everything about a cell except drawing its glyph: shared by the on-screen pass
+// and the cellMain readback used for text exports
+fn computeCell(cellUv: vec2f, gridDims: vec2f) -> Cell {
+    var sceneColor = textureSample(tDiffuse, sSampler, cellUv);
+    let luma = dot(sceneColor.rgb, vec3f(0.299, 0.587, 0.114));
+    let luminance = select(1.0 - luma, luma, params.uInvert > 0.5);
+    
+    var charIndex = params.uFirstStep + floor(luminance * (params.uCharCount - 1.0 - params.uFirstStep));
+
+    // Edge glyphs are off by default, so skip the 18 samples unless they're wanted
+    if (params.uEdgeThreshold > 0.0) {
+        let edge = detectEdge(cellUv + 0.5 / gridDims, 1.0 / gridDims);
+        if (edge.strength > params.uEdgeThreshold) {
+            charIndex = params.uCharCount + edge.glyph;
+            sceneColor = edge.color;
+        }
+    }
+
+    var glyphColor = sceneColor.rgb;
+    if (params.uColorMode > 1.5) {
+        glyphColor = quantize(sceneColor.rgb);
+    } else if (params.uColorMode > 0.5) {
+        glyphColor = params.uColor;
+    }
+
+    return Cell(charIndex, vec4f(glyphColor, sceneColor.a));
 }
 
 @fragment
 fn main(@location(0) uv: vec2f) -> @location(0) vec4f {
-    let gridDims = params.uResolution / params.uFontSize;
+    let gridDims = params.uResolution / params.uCellSize;
     let cellUv = floor(uv * gridDims) / gridDims;
-    
-    let sceneColor = textureSample(tDiffuse, sSampler, cellUv);
-    let luminance = 1.0 - dot(sceneColor.rgb, vec3f(0.299, 0.587, 0.114));
-    
-    let charIndex = floor(luminance * (params.uCharCount - 1.0));
     let uvInCell = fract(uv * gridDims);
+    let cell = computeCell(cellUv, gridDims);
     
-    let fontU = (charIndex + uvInCell.x) / params.uCharCount;
-    let fontV = uvInCell.y;
+    let atlasCell = vec2f(cell.charIndex % params.uAtlasColumns, floor(cell.charIndex / params.uAtlasColumns));
+    let fontU = (atlasCell.x + uvInCell.x) / params.uAtlasColumns;
+    let fontV = (atlasCell.y + uvInCell.y) / params.uAtlasRows;
     
     let fontColor = textureSample(tFont, sSampler, vec2f(fontU, fontV));
-    
-    return vec4f(sceneColor.rgb * fontColor.r, sceneColor.a * fontColor.r);
+
+    if (params.uBgAlpha > 0.5) {
+        return vec4f(mix(params.uBgColor, cell.color.rgb, fontColor.r * cell.color.a), 1.0);
+    }
+    return vec4f(cell.color.rgb * fontColor.r, cell.color.a * fontColor.r);
+}
+
+// One fragment per cell into a grid-sized rgba32float target: rgb = glyph colour,
+// a = atlas index, or -1 where the cell is empty
+@fragment
+fn cellMain(@builtin(position) position: vec4f) -> @location(0) vec4f {
+    let gridDims = params.uResolution / params.uCellSize;
+    let cell = computeCell(floor(position.xy) / gridDims, gridDims);
+    return vec4f(cell.color.rgb, select(-1.0, cell.charIndex, cell.color.a > 0.0));
 }
 `;
@@ -0,0 +1,399 @@
+import { quat } from 'gl-matrix';
+import type { Renderer } from './renderer';
+import type { AsciiFrame } from './ascii-frame';
+import { cellSizeFor, measureCellAspect, DEFAULT_ASCII_OPTIONS, type AsciiOptions } from './ascii-tg-shader';
+import { AUTO_SPIN_PER_SECOND, orientationFromRotation, rotationFromOrientation, type Rotation } from './transforms';
+import { Camera } from './camera';
+import { CameraController } from './camera-controller';
+import { DEFAULT_LIGHTING, type Light, type LightingOptions } from './lighting';
+import type { Timeline } from './timeline';
+import { scale, type Vec3 } from './geometries/vec3';
+import { TextModeLayer, describeScene, type TextMode } from './text-layer';
+import type { Geometry } from './geometries/geometry';
+import { morph, MORPH_SECONDS, type Scene } from './scene';
+import { canMorph } from './geometries/morph';
+import { createSingleScene } from './scenes';
+import { createGeometry, isShapeName } from './geometries/shapes';
+import { DEFAULT_FACE_TEXTURE, type SceneConfig } from './scene-config';
+
+// Longer gaps (a background tab, a breakpoint) count as this many seconds
+const MAX_FRAME_SECONDS = 0.1;
+
+// Face images are resampled to this square size on load
+const FACE_TEXTURE_SIZE = 512;
+
+/**
+ * Everything a renderer does besides drawing: the canvas, camera and pointer input,
+ * scene and timeline animation, face image loading, presets and text mode. Backends
+ * supply the drawing, with `Texture` as their uploaded form of a face image.
+ */
+export abstract class BaseRenderer<Texture> implements Renderer {
+    protected container: HTMLElement | null = null;
+    protected canvas: HTMLCanvasElement | null = null;
+
+    // Face images
+    protected textures = new Map<string, Texture>();
+    private loadingTextures = new Map<string, Promise<void>>();
+    // Images that failed to load; frames draw the fallback for them until setTexture retries
+    private failedTextures = new Set<string>();
+    // Faces of nodes that don't name their own image
+    protected faceTexture = DEFAULT_FACE_TEXTURE;
+    // Latest setTexture call, which wins however the loads finish
+    private requestedTexture = DEFAULT_FACE_TEXTURE;
+
+    // Interaction
+    protected camera = new Camera();
+    protected controller: CameraController | null = null;
+    protected reducedMotion: MediaQueryList | null = null;
+
+    // Animation
+    private lastFrameTime: number | null = null;
+    private timeline: Timeline | null = null;
+    private timelineStart = 0;
+    private timelineRotation: Rotation = { x: 0, y: 0 };
+    private autoRotate = true;
+    private spinSpeed = 1;
+
+    // Scene; the last named shape shown, which a preset can bring back, so not a model
+    private shape = 'dodecahedron';
+    protected scene: Scene = createSingleScene(this.shape);
+    private sceneStart: number | null = null;
+
+    // Text mode
+    private textLayer: TextModeLayer | null = null;
+    private captureInFlight = false;
+
+    // Settings
+    protected asciiOptions: AsciiOptions = DEFAULT_ASCII_OPTIONS;
+    protected lighting: LightingOptions = DEFAULT_LIGHTING;
+
+    abstract initialize(container: HTMLElement): Promise<void>;
+
+    // Draws the scene turned by `rotation` to the canvas; false if resources are still loading
+    protected abstract drawFrame(rotation: quat): boolean;
+
+    // Rebuilds whatever depends on the changed options
+    protected abstract applyAsciiOptions(changed: Partial<AsciiOptions>): void;
+
+    // Reallocates size-dependent resources after the canvas was resized
+    protected abstract resizeTargets(): void;
+
+    // Uploads a loaded face image
+    protected abstract createTexture(bitmap: ImageBitmap): Texture;
+
+    // Stands in for images that are still loading
+    protected abstract fallbackTexture(): Texture;
+
+    /**
+     * Renders one frame at an explicit rotation into an offscreen image, independent of
+     * the canvas and the animation loop. Transparent pixels are flattened onto `background`.
+     */
+    abstract renderStill(rotation: Rotation | quat, width: number, height: number, background: Vec3): Promise<ImageData>;
+
+    /**
+     * The character grid of the last rendered frame, using the same per-cell logic as
+     * the on-screen ASCII pass.
+     */
+    abstract captureFrame(): Promise<AsciiFrame>;
+
+    // Adds a full-size canvas to the container and starts listening for input on it
+    protected attachCanvas(container: HTMLElement, canvas: HTMLCanvasElement): void {
+        this.container = container;
+        this.canvas = canvas;
+        this.reducedMotion = window.matchMedia('(prefers-reduced-motion: reduce)');
+
+        canvas.width = container.clientWidth * window.devicePixelRatio;
+        canvas.height = container.clientHeight * window.devicePixelRatio;
+        canvas.style.width = '100%';
+        canvas.style.height = '100%';
+        container.appendChild(canvas);
+
+        this.controller = new CameraController(container, this.camera);
+    }
+
+    // Starts loading unseen images and stands in the fallback until they arrive
+    protected textureFor(url = this.faceTexture): Texture {
+        const texture = this.textures.get(url);
+        if (texture) return texture;
+
+        if (!this.loadingTextures.has(url) && !this.failedTextures.has(url)) {
+            this.loadTexture(url).catch(error => console.error('Renderer: Failed to load face texture:', error));
+        }
+        return this.fallbackTexture();
+    }
+
+    // Lets the first frame show the face image; a broken one is drawn as the fallback
+    // rather than failing initialize, which would count the whole backend as unavailable
+    protected async preloadFaceTexture(): Promise<void> {
+        try {
+            await this.loadTexture(this.faceTexture);
+        } catch (error) {
+            console.error('Renderer: Failed to load face texture:', error);
+        }
+    }
+
+    // Callers asking for an image already on its way share that load
+    protected loadTexture(url: string): Promise<void> {
+        let loading = this.loadingTextures.get(url);
+        if (!loading) {
+            loading = this.decodeTexture(url);
+            this.loadingTextures.set(url, loading);
+        }
+        return loading;
+    }
+
+    private async decodeTexture(url: string): Promise<void> {
+        try {
+            const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+                const img = new Image();
+                img.onload = () => resolve(img);
+                img.onerror = () => reject(new Error(`Failed to load image: ${url}`));
+                img.src = url;
+            });
+
+            const bitmap = await createImageBitmap(image, {
+                resizeWidth: FACE_TEXTURE_SIZE,
+                resizeHeight: FACE_TEXTURE_SIZE,
+                resizeQuality: 'high',
+            });
+
+            this.textures.set(url, this.createTexture(bitmap));
+        } catch (error) {
+            this.failedTextures.add(url);
+            throw error;
+        } finally {
+            this.loadingTextures.delete(url);
+        }
+    }
+
+    setAsciiOptions(options: Partial<AsciiOptions>): void {
+        this.asciiOptions = { ...this.asciiOptions, ...options };
+        if (!this.canvas) return;
+
+        this.applyAsciiOptions(options);
+        this.textLayer?.setCellSize(...this.textCellSize());
+    }
+
+    // Cell width and height in CSS pixels, as the ASCII pass lays them out
+    private textCellSize(): [number, number] {
+        const width = (this.canvas?.width ?? 0) / window.devicePixelRatio;
+        return cellSizeFor(this.asciiOptions, measureCellAspect(this.asciiOptions), width, 1);
+    }
+
+    /**
+     * Mirrors every frame's character grid into a `<pre>` for selection, copying and
+     * screen readers, either over the canvas or in place of it.
+     */
+    setTextMode(mode: TextMode): void {
+        this.textLayer?.destroy();
+        this.textLayer = null;
+        if (mode === 'off' || !this.container || !this.canvas) return;
+
+        this.textLayer = new TextModeLayer(this.container, this.canvas, mode, this.textCellSize());
+    }
+
+    setLighting(options: Partial<LightingOptions>): void {
+        this.lighting = { ...this.lighting, ...options };
+    }
+
+    // Only the new geometry's buffers are built; the old ones are freed after the next frame
+    setGeometry(geometry: Geometry, name = 'solid'): void {
+        if (isShapeName(name)) this.shape = name;
+        this.setScene(createSingleScene(name, geometry));
+    }
+
+    /**
+     * Like setGeometry, but the solid on screen blends into the new one. Scenes of
+     * several solids, meshes over MORPH_TRIANGLE_BUDGET and reduced motion cut
+     * straight to it instead.
+     */
+    morphGeometry(geometry: Geometry, name = 'solid', seconds = MORPH_SECONDS): void {
+        const [current, ...others] = this.scene.meshes();
+        this.setGeometry(geometry, name);
+        if (!current || others.length > 0 || this.reducedMotion?.matches) return;
+        if (!canMorph(current.geometry!) || !canMorph(geometry)) return;
+
+        this.scene.meshes()[0].animation = morph([current.geometry!, geometry], seconds);
+    }
+
+    /**
+     * Makes `url` the face image of every node without its own. Images are kept once
+     * loaded, so switching back to one is instant; one that failed is tried again.
+     */
+    async setTexture(url: string): Promise<void> {
+        this.requestedTexture = url;
+        this.failedTextures.delete(url);
+        if (!this.textures.has(url)) {
+            await this.loadTexture(url);
+        }
+        if (this.requestedTexture === url) this.faceTexture = url;
+    }
+
+    setAutoRotate(enabled: boolean): void {
+        this.autoRotate = enabled;
+    }
+
+    /**
+     * Applies a whole preset: shape, image, ASCII look, view, spin and lighting. A shape
+     * that fails to build is reported and leaves the rest applied.
+     */
+    async setSceneConfig(config: SceneConfig): Promise<void> {
+        this.setAsciiOptions(config.ascii);
+        this.setLighting(config.lighting);
+        this.setAutoRotate(config.spinSpeed !== 0);
+        if (config.spinSpeed !== 0) this.spinSpeed = config.spinSpeed;
+
+        Object.assign(this.camera, { ...config.camera, pan: [...config.camera.pan] });
+        this.controller?.setOrientation('x' in config.rotation ? orientationFromRotation(config.rotation) : config.rotation);
+
+        try {
+            this.setGeometry(createGeometry(config.shape), config.shape);
+        } catch (error) {
+            console.error(`Renderer: Failed to build shape "${config.shape}":`, error);
+        }
+
+        await this.setTexture(config.texture);
+    }
+
+    // The current look as a preset; the orientation is captured exactly, as a quaternion
+    getSceneConfig(): SceneConfig {
+        const round = (value: number) => Math.round(value * 1e4) / 1e4;
+        const orientation = this.controller?.orientation ?? quat.create();
+
+        return {
+            shape: this.shape,
+            texture: this.faceTexture,
+            ascii: { ...this.asciiOptions },
+            rotation: [round(orientation[0]), round(orientation[1]), round(orientation[2]), round(orientation[3])],
+            spinSpeed: this.autoRotate ? this.spinSpeed : 0,
+            camera: {
+                distance: round(this.camera.distance),
+                fieldOfView: this.camera.fieldOfView,
+                projection: this.camera.projection,
+                pan: [round(this.camera.pan[0]), round(this.camera.pan[1])],
+            },
+            lighting: { ...this.lighting },
+        };
+    }
+
+    /**
+     * Swaps in a new set of nodes; their animations start from time zero.
+     */
+    setScene(scene: Scene): void {
+        this.scene = scene;
+        this.sceneStart = null;
+    }
+
+    getScene(): Scene {
+        return this.scene;
+    }
+
+    /**
+     * Plays keyframes from now on. A 'once' timeline leaves its last values in place
+     * when it ends; playing another replaces it.
+     */
+    playTimeline(timeline: Timeline): void {
+        this.timeline = timeline;
+        this.timelineStart = performance.now();
+    }
+
+    stopTimeline(): void {
+        this.timeline = null;
+    }
+
+    private applyTimeline(now: number): void {
+        if (!this.timeline) return;
+
+        const time = (now - this.timelineStart) / 1000;
+        const state = this.timeline.sample(time);
+        // Reduced motion keeps the choreography's look but not its movement
+        const still = this.reducedMotion?.matches ?? false;
+
+        if (state.rotation && !still) {
+            this.timelineRotation = state.rotation;
+        }
+        if (state.zoom !== undefined && !still) {
+            this.camera.zoom = state.zoom;
+        }
+        if (state.lightPosition) {
+            this.setLightPosition(state.lightPosition);
+        }
+
+        const ascii: Partial<AsciiOptions> = {};
+        if (state.fontSize !== undefined && state.fontSize !== this.asciiOptions.fontSize) ascii.fontSize = state.fontSize;
+        if (state.charSet !== undefined && state.charSet !== this.asciiOptions.charSet) ascii.charSet = state.charSet;
+        if (Object.keys(ascii).length > 0) this.setAsciiOptions(ascii);
+
+        if (this.timeline.isFinished(time)) this.timeline = null;
+    }
+
+    // Moves the first light; directional lights shine from the position towards the origin
+    private setLightPosition(position: Vec3): void {
+        const [first, ...rest] = this.lighting.lights;
+        if (!first) return;
+
+        const light: Light = first.type === 'point'
+            ? { ...first, position }
+            : { ...first, direction: scale(position, -1) };
+        this.setLighting({ lights: [light, ...rest] });
+    }
+
+    resize(width: number, height: number): void {
+        if (!this.canvas) return;
+        this.canvas.width = width * window.devicePixelRatio;
+        this.canvas.height = height * window.devicePixelRatio;
+        this.resizeTargets();
+        // Snapped columns widen and narrow with the canvas
+        if (this.asciiOptions.columns) this.textLayer?.setCellSize(...this.textCellSize());
+    }
+
+    render(): void {
+        if (!this.canvas || !this.controller) return;
+
+        const now = performance.now();
+        const seconds = this.lastFrameTime === null ? 0 : Math.min((now - this.lastFrameTime) / 1000, MAX_FRAME_SECONDS);
+        this.lastFrameTime = now;
+        this.applyTimeline(now);
+
+        // Reduced motion freezes node animations where they are
+        this.sceneStart ??= now;
+        if (!this.reducedMotion?.matches) {
+            this.scene.update((now - this.sceneStart) / 1000);
+        }
+
+        const controller = this.controller;
+        controller.inertia = !this.reducedMotion?.matches;
+        controller.update(seconds);
+
+        if (this.autoRotate && !controller.isActive() && !this.reducedMotion?.matches) {
+            controller.rotate([0, 1, 0], AUTO_SPIN_PER_SECOND.y * this.spinSpeed * seconds);
+            controller.rotate([1, 0, 0], AUTO_SPIN_PER_SECOND.x * this.spinSpeed * seconds);
+        }
+
+        const rotation = quat.multiply(quat.create(), controller.orientation, orientationFromRotation(this.timelineRotation));
+        if (!this.drawFrame(rotation)) return;
+
+        this.updateTextLayer(rotation);
+    }
+
+    // Skips frames while a readback is still pending rather than queueing them up
+    private updateTextLayer(orientation: quat): void {
+        if (!this.textLayer || this.captureInFlight) return;
+
+        const layer = this.textLayer;
+        const description = describeScene(this.scene.describe(), rotationFromOrientation(orientation), !this.reducedMotion?.matches);
+        this.captureInFlight = true;
+        this.captureFrame()
+            .then(frame => {
+                if (layer === this.textLayer) layer.update(frame, description);
+            })
+            .catch(error => console.error('Renderer: Text mode readback failed:', error))
+            .finally(() => { this.captureInFlight = false; });
+    }
+
+    destroy(): void {
+        this.controller?.destroy();
+        this.textLayer?.destroy();
+        this.canvas?.remove();
+    }
+}
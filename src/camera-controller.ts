@@ -0,0 +1,220 @@
+import { quat, vec3 } from 'gl-matrix';
+import type { Camera } from './camera';
+
+// Radians per arrow key press
+const KEY_ROTATION = 0.1;
+// Spin left over after a fling decays by e every 1 / DAMPING seconds
+const DAMPING = 3;
+// Below this (rad/s) a fling has stopped
+const MIN_SPIN_SPEED = 0.01;
+// A pointer that rests this long before release doesn't fling
+const FLING_WINDOW_MS = 80;
+const WHEEL_ZOOM_SPEED = 0.0015;
+
+type DragMode = 'rotate' | 'pan';
+
+interface PointerPosition {
+    x: number;
+    y: number;
+}
+
+function isEditable(target: EventTarget | null): boolean {
+    return target instanceof HTMLElement
+        && (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName));
+}
+
+/**
+ * Turns pointer, wheel and key input into the solid's orientation and the camera's
+ * zoom, pan and projection. Mouse and touch share pointer events: one pointer rotates
+ * (or pans with the right button or Shift), two pointers pinch-zoom and pan.
+ *
+ * R resets the view and O toggles perspective/orthographic.
+ */
+export class CameraController {
+    // The solid's orientation as set by the user
+    readonly orientation = quat.create();
+    // Keeps the solid spinning after a fling; off for reduced motion
+    inertia = true;
+
+    private readonly element: HTMLElement;
+    private readonly camera: Camera;
+    private readonly listeners = new AbortController();
+    private readonly pointers = new Map<number, PointerPosition>();
+    private dragMode: DragMode = 'rotate';
+    // Axis scaled by speed in rad/s
+    private readonly angularVelocity = vec3.create();
+    private lastMoveTime = 0;
+
+    constructor(element: HTMLElement, camera: Camera) {
+        this.element = element;
+        this.camera = camera;
+
+        // Stop touch drags from scrolling or zooming the page instead
+        this.element.style.touchAction = 'none';
+
+        const signal = this.listeners.signal;
+        element.addEventListener('pointerdown', e => this.onPointerDown(e), { signal });
+        element.addEventListener('pointermove', e => this.onPointerMove(e), { signal });
+        element.addEventListener('pointerup', e => this.onPointerUp(e), { signal });
+        element.addEventListener('pointercancel', e => this.onPointerUp(e), { signal });
+        element.addEventListener('wheel', e => this.onWheel(e), { signal, passive: false });
+        element.addEventListener('contextmenu', e => e.preventDefault(), { signal });
+        window.addEventListener('keydown', e => this.onKeyDown(e), { signal });
+    }
+
+    // Dragging or still coasting after a fling
+    isActive(): boolean {
+        return this.pointers.size > 0 || vec3.length(this.angularVelocity) > 0;
+    }
+
+    setOrientation(orientation: quat): void {
+        quat.normalize(this.orientation, orientation);
+        vec3.zero(this.angularVelocity);
+    }
+
+    // Rotates the solid about a view-space axis
+    rotate(axis: vec3, angle: number): void {
+        const rotation = quat.setAxisAngle(quat.create(), axis, angle);
+        quat.multiply(this.orientation, rotation, this.orientation);
+        quat.normalize(this.orientation, this.orientation);
+    }
+
+    // Advances any fling by `seconds`
+    update(seconds: number): void {
+        if (this.pointers.size > 0) return;
+
+        const speed = vec3.length(this.angularVelocity);
+        if (!this.inertia || speed < MIN_SPIN_SPEED) {
+            vec3.zero(this.angularVelocity);
+            return;
+        }
+
+        this.rotate(vec3.normalize(vec3.create(), this.angularVelocity), speed * seconds);
+        vec3.scale(this.angularVelocity, this.angularVelocity, Math.exp(-DAMPING * seconds));
+    }
+
+    reset(): void {
+        quat.identity(this.orientation);
+        vec3.zero(this.angularVelocity);
+        this.camera.reset();
+    }
+
+    destroy(): void {
+        this.listeners.abort();
+        this.element.style.touchAction = '';
+    }
+
+    private onPointerDown(e: PointerEvent): void {
+        this.element.setPointerCapture(e.pointerId);
+        this.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        this.dragMode = e.button === 2 || e.button === 1 || e.shiftKey ? 'pan' : 'rotate';
+        this.element.style.cursor = 'grabbing';
+        vec3.zero(this.angularVelocity);
+    }
+
+    private onPointerMove(e: PointerEvent): void {
+        const previous = this.pointers.get(e.pointerId);
+        if (!previous) return;
+
+        const current = { x: e.clientX, y: e.clientY };
+
+        if (this.pointers.size >= 2) {
+            // Compare the first two pointers before and after this one moved
+            const [a, b] = [...this.pointers.keys()];
+            const before = [this.pointers.get(a)!, this.pointers.get(b)!];
+            this.pointers.set(e.pointerId, current);
+            const after = [this.pointers.get(a)!, this.pointers.get(b)!];
+
+            const spread = (p: PointerPosition[]) => Math.hypot(p[0].x - p[1].x, p[0].y - p[1].y);
+            if (spread(after) > 0) this.camera.zoomBy(spread(before) / spread(after));
+            this.panBy(
+                (after[0].x + after[1].x - before[0].x - before[1].x) / 2,
+                (after[0].y + after[1].y - before[0].y - before[1].y) / 2,
+            );
+            return;
+        }
+
+        this.pointers.set(e.pointerId, current);
+        if (this.dragMode === 'pan') {
+            this.panBy(current.x - previous.x, current.y - previous.y);
+        } else {
+            this.arcball(previous, current);
+        }
+    }
+
+    private onPointerUp(e: PointerEvent): void {
+        if (!this.pointers.delete(e.pointerId)) return;
+        if (this.element.hasPointerCapture(e.pointerId)) {
+            this.element.releasePointerCapture(e.pointerId);
+        }
+
+        if (this.pointers.size === 0) {
+            this.element.style.cursor = '';
+            if (performance.now() - this.lastMoveTime > FLING_WINDOW_MS) {
+                vec3.zero(this.angularVelocity);
+            }
+        } else {
+            // Lifting one finger of a pinch carries on as a plain drag
+            this.dragMode = 'rotate';
+            vec3.zero(this.angularVelocity);
+        }
+    }
+
+    private onWheel(e: WheelEvent): void {
+        e.preventDefault();
+        this.camera.zoomBy(Math.exp(e.deltaY * WHEEL_ZOOM_SPEED));
+    }
+
+    private onKeyDown(e: KeyboardEvent): void {
+        if (isEditable(e.target) || e.ctrlKey || e.metaKey || e.altKey) return;
+
+        switch (e.key) {
+            case 'ArrowUp': this.rotate([1, 0, 0], -KEY_ROTATION); break;
+            case 'ArrowDown': this.rotate([1, 0, 0], KEY_ROTATION); break;
+            case 'ArrowLeft': this.rotate([0, 1, 0], -KEY_ROTATION); break;
+            case 'ArrowRight': this.rotate([0, 1, 0], KEY_ROTATION); break;
+            case 'r': case 'R': this.reset(); break;
+            case 'o': case 'O': this.camera.toggleProjection(); break;
+        }
+    }
+
+    // Moves the view so the scene follows the pointer at the origin's depth
+    private panBy(dx: number, dy: number): void {
+        const unitsPerPixel = this.camera.visibleHeight() / this.element.clientHeight;
+        this.camera.pan[0] -= dx * unitsPerPixel;
+        this.camera.pan[1] += dy * unitsPerPixel;
+    }
+
+    // Projects a pointer onto a virtual trackball filling the element, hyperbolic past its rim
+    private toSphere(position: PointerPosition): vec3 {
+        const rect = this.element.getBoundingClientRect();
+        const radius = Math.min(rect.width, rect.height) / 2;
+        const x = (position.x - rect.left - rect.width / 2) / radius;
+        const y = (rect.top + rect.height / 2 - position.y) / radius;
+        const d2 = x * x + y * y;
+        const z = d2 <= 0.5 ? Math.sqrt(1 - d2) : 0.5 / Math.sqrt(d2);
+        return vec3.normalize(vec3.create(), [x, y, z]);
+    }
+
+    private arcball(from: PointerPosition, to: PointerPosition): void {
+        const a = this.toSphere(from);
+        const b = this.toSphere(to);
+        const axis = vec3.cross(vec3.create(), a, b);
+        if (vec3.length(axis) < 1e-6) return;
+
+        const angle = Math.acos(Math.min(Math.max(vec3.dot(a, b), -1), 1));
+        vec3.normalize(axis, axis);
+        this.rotate(axis, angle);
+
+        // Average with the last sample so one jittery event doesn't set the fling
+        const now = performance.now();
+        const seconds = (now - this.lastMoveTime) / 1000;
+        this.lastMoveTime = now;
+        if (seconds > 0 && seconds < FLING_WINDOW_MS / 1000) {
+            const velocity = vec3.scale(vec3.create(), axis, angle / seconds);
+            vec3.lerp(this.angularVelocity, this.angularVelocity, velocity, 0.5);
+        } else {
+            vec3.zero(this.angularVelocity);
+        }
+    }
+}
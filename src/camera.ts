@@ -0,0 +1,67 @@
+import { mat4 } from 'gl-matrix';
+import type { Vec3 } from './geometries/vec3';
+
+export const CAMERA_DISTANCE = 4.5;
+export const FIELD_OF_VIEW = Math.PI / 4;
+
+// Keeps the camera outside the largest solid and the solid from vanishing
+export const MIN_CAMERA_DISTANCE = 2;
+export const MAX_CAMERA_DISTANCE = 20;
+
+export type Projection = 'perspective' | 'orthographic';
+
+export const PROJECTIONS: Projection[] = ['perspective', 'orthographic'];
+
+/**
+ * Looks down -Z at the origin (plus any pan); the solid turns in front of it rather
+ * than the camera orbiting, so lights stay fixed relative to the view.
+ */
+export class Camera {
+    distance = CAMERA_DISTANCE;
+    // Divides the distance on top of the user's own zoom, for timelines
+    zoom = 1;
+    fieldOfView = FIELD_OF_VIEW;
+    projection: Projection = 'perspective';
+    // Slides camera and target together across the view plane
+    pan: [number, number] = [0, 0];
+
+    position(): Vec3 {
+        return [this.pan[0], this.pan[1], this.distance / this.zoom];
+    }
+
+    // World units from top to bottom of the view at the origin's depth
+    visibleHeight(): number {
+        return 2 * (this.distance / this.zoom) * Math.tan(this.fieldOfView / 2);
+    }
+
+    viewMatrix(): mat4 {
+        return mat4.lookAt(mat4.create(), this.position(), [this.pan[0], this.pan[1], 0], [0, 1, 0]);
+    }
+
+    // Orthographic frames the same height as perspective does at the origin, so toggling keeps the size
+    projectionMatrix(aspect: number): mat4 {
+        if (this.projection === 'perspective') {
+            return mat4.perspective(mat4.create(), this.fieldOfView, aspect, 0.1, 100);
+        }
+        const halfHeight = this.visibleHeight() / 2;
+        return mat4.ortho(mat4.create(), -halfHeight * aspect, halfHeight * aspect, -halfHeight, halfHeight, 0.1, 100);
+    }
+
+    zoomBy(factor: number): void {
+        this.distance = Math.min(Math.max(this.distance * factor, MIN_CAMERA_DISTANCE), MAX_CAMERA_DISTANCE);
+    }
+
+    toggleProjection(): void {
+        this.projection = this.projection === 'perspective' ? 'orthographic' : 'perspective';
+    }
+
+    reset(): void {
+        this.distance = CAMERA_DISTANCE;
+        this.fieldOfView = FIELD_OF_VIEW;
+        this.projection = 'perspective';
+        this.pan = [0, 0];
+    }
+}
+
+// The serializable part of a camera, for presets and links
+export type CameraConfig = Pick<Camera, 'distance' | 'fieldOfView' | 'projection' | 'pan'>;
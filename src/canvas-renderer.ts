@@ -0,0 +1,202 @@
+import type { quat } from 'gl-matrix';
+import type { AsciiFrame } from './ascii-frame';
+import { cellSizeFor, drawGlyphAtlas, gridSizeFor, ATLAS_OPTIONS, type AsciiOptions } from './ascii-tg-shader';
+import { nearestPaletteIndex, resolvePalette, toHexColor } from './palettes';
+import { renderAsciiScene, type TextureData } from './cpu-renderer';
+import type { Rotation } from './transforms';
+import type { Vec3 } from './geometries/vec3';
+import { BaseRenderer } from './base-renderer';
+
+const WHITE_TEXTURE: TextureData = { width: 1, height: 1, data: [255, 255, 255, 255] };
+
+/**
+ * Draws with no GPU API at all: the CPU renderer rasterizes the scene one sample per
+ * cell, and the characters are drawn as text. The last resort when neither WebGPU
+ * nor WebGL2 is available, so it favours few canvas calls over per-glyph accuracy.
+ */
+export class CanvasRenderer extends BaseRenderer<TextureData> {
+    private context: CanvasRenderingContext2D | null = null;
+    // Glyphs are drawn white here, then coloured, so the background stays untouched
+    private glyphLayer: CanvasRenderingContext2D | null = null;
+    private colorLayer: CanvasRenderingContext2D | null = null;
+    // Ramp in coverage order and cell shape, as the GPU atlas holds them
+    private ramp = '';
+    private cellAspect = 1;
+    private lastFrame: AsciiFrame | null = null;
+
+    async initialize(container: HTMLElement): Promise<void> {
+        const canvas = document.createElement('canvas');
+        const context = canvas.getContext('2d');
+        const glyphLayer = document.createElement('canvas').getContext('2d');
+        const colorLayer = document.createElement('canvas').getContext('2d', { willReadFrequently: true });
+        if (!context || !glyphLayer || !colorLayer) throw new Error('Canvas 2D not supported');
+
+        this.context = context;
+        this.glyphLayer = glyphLayer;
+        this.colorLayer = colorLayer;
+        this.attachCanvas(container, canvas);
+        this.updateRamp();
+
+        await this.preloadFaceTexture();
+
+        this.resize(container.clientWidth, container.clientHeight);
+    }
+
+    protected fallbackTexture(): TextureData {
+        return WHITE_TEXTURE;
+    }
+
+    protected createTexture(bitmap: ImageBitmap): TextureData {
+        const canvas = document.createElement('canvas');
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+        const context = canvas.getContext('2d', { willReadFrequently: true })!;
+        context.drawImage(bitmap, 0, 0);
+        return context.getImageData(0, 0, bitmap.width, bitmap.height);
+    }
+
+    private updateRamp(): void {
+        const atlas = drawGlyphAtlas(this.asciiOptions);
+        this.ramp = atlas.chars.join('');
+        this.cellAspect = atlas.cellAspect;
+    }
+
+    protected applyAsciiOptions(changed: Partial<AsciiOptions>): void {
+        if (ATLAS_OPTIONS.some(key => changed[key] !== undefined)) {
+            this.updateRamp();
+        }
+    }
+
+    protected resizeTargets(): void {
+        if (!this.canvas || !this.glyphLayer) return;
+        this.glyphLayer.canvas.width = this.canvas.width;
+        this.glyphLayer.canvas.height = this.canvas.height;
+    }
+
+    // Rasterizes a frame of `width` x `height` pixels; the cell size scales with the width like the GPU stills
+    private renderCells(rotation: Rotation | quat, width: number, height: number): { frame: AsciiFrame; cellSize: [number, number] } {
+        const cellSize = cellSizeFor(this.asciiOptions, this.cellAspect, width, window.devicePixelRatio * width / this.canvas!.width);
+        const viewport: [number, number] = [width / cellSize[0], height / cellSize[1]];
+
+        const frame = renderAsciiScene(
+            this.scene.meshes().map(node => ({
+                geometry: node.geometry!,
+                transform: node.worldMatrix(),
+                texture: this.textureFor(node.texture),
+            })),
+            {
+                ...gridSizeFor(cellSize, width, height),
+                viewport,
+                rotation,
+                aspect: width / height,
+                camera: this.camera,
+                lighting: this.lighting,
+                charSet: this.ramp,
+                invertRamp: this.asciiOptions.invertRamp,
+                edgeThreshold: this.asciiOptions.edges ? this.asciiOptions.edgeThreshold : 0,
+            },
+        );
+
+        // Glyph colours as the GPU cell pass reports them
+        const { colorMode, color, palette } = this.asciiOptions;
+        if (colorMode !== 'scene') {
+            const colors = colorMode === 'palette' ? resolvePalette(palette) : [color];
+            for (let cell = 0; cell < frame.columns * frame.rows; cell++) {
+                const rgb = Array.from(frame.colors.subarray(cell * 3, cell * 3 + 3)) as Vec3;
+                frame.colors.set(colors[colorMode === 'palette' ? nearestPaletteIndex(rgb, colors) : 0], cell * 3);
+            }
+        }
+
+        return { frame, cellSize };
+    }
+
+    // Lines of text stretched to one cell per character, white, then coloured per cell
+    private drawCells(target: CanvasRenderingContext2D, frame: AsciiFrame, [cellWidth, cellHeight]: [number, number]): void {
+        const glyphs = this.glyphLayer!;
+        const colors = this.colorLayer!;
+        const { width, height } = target.canvas;
+        const { fontFamily, fontWeight, colorMode, color, background } = this.asciiOptions;
+
+        if (glyphs.canvas.width !== width || glyphs.canvas.height !== height) {
+            glyphs.canvas.width = width;
+            glyphs.canvas.height = height;
+        }
+        glyphs.globalCompositeOperation = 'source-over';
+        glyphs.clearRect(0, 0, width, height);
+        glyphs.font = `${fontWeight} ${cellHeight}px ${fontFamily}`;
+        glyphs.textBaseline = 'middle';
+        glyphs.fillStyle = '#ffffff';
+
+        const advance = glyphs.measureText('M').width || cellWidth;
+        glyphs.save();
+        glyphs.scale(cellWidth / advance, 1);
+        frame.lines.forEach((line, row) => glyphs.fillText(line, 0, (row + 0.5) * cellHeight));
+        glyphs.restore();
+
+        // Keep only the glyphs' coverage and take the colour from a cell-sized image
+        glyphs.globalCompositeOperation = 'source-in';
+        if (colorMode === 'tint') {
+            glyphs.fillStyle = toHexColor(color);
+            glyphs.fillRect(0, 0, width, height);
+        } else {
+            colors.canvas.width = frame.columns;
+            colors.canvas.height = frame.rows;
+            const image = colors.createImageData(frame.columns, frame.rows);
+            for (let cell = 0; cell < frame.columns * frame.rows; cell++) {
+                image.data.set([
+                    frame.colors[cell * 3] * 255,
+                    frame.colors[cell * 3 + 1] * 255,
+                    frame.colors[cell * 3 + 2] * 255,
+                    255,
+                ], cell * 4);
+            }
+            colors.putImageData(image, 0, 0);
+            glyphs.imageSmoothingEnabled = false;
+            glyphs.drawImage(colors.canvas, 0, 0, frame.columns * cellWidth, frame.rows * cellHeight);
+        }
+
+        target.clearRect(0, 0, width, height);
+        if (background) {
+            target.fillStyle = toHexColor(background);
+            target.fillRect(0, 0, width, height);
+        }
+        target.drawImage(glyphs.canvas, 0, 0);
+    }
+
+    protected drawFrame(rotation: quat): boolean {
+        if (!this.context || !this.canvas) return false;
+
+        const { frame, cellSize } = this.renderCells(rotation, this.canvas.width, this.canvas.height);
+        this.drawCells(this.context, frame, cellSize);
+        this.lastFrame = frame;
+        return true;
+    }
+
+    async renderStill(rotation: Rotation | quat, width: number, height: number, background: Vec3): Promise<ImageData> {
+        if (!this.context || !this.canvas) {
+            throw new Error('Renderer is not initialized');
+        }
+
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const context = canvas.getContext('2d', { willReadFrequently: true })!;
+
+        const { frame, cellSize } = this.renderCells(rotation, width, height);
+        this.drawCells(context, frame, cellSize);
+
+        // Flatten onto the background like the GPU stills
+        context.globalCompositeOperation = 'destination-over';
+        context.fillStyle = toHexColor(background);
+        context.fillRect(0, 0, width, height);
+        return context.getImageData(0, 0, width, height);
+    }
+
+    // The grid is already on the CPU, so this is the last frame as drawn
+    async captureFrame(): Promise<AsciiFrame> {
+        if (!this.lastFrame) {
+            throw new Error('Renderer has not drawn a frame yet');
+        }
+        return this.lastFrame;
+    }
+}
@@ -0,0 +1,139 @@
+import { parseArgs } from 'node:util';
+import { createGeometry } from './geometries/shapes';
+import { renderAsciiFrame } from './cpu-renderer';
+import { ANSI_RESET, frameToAnsi, type AnsiColorMode } from './ansi';
+import { DEFAULT_LIGHTING } from './lighting';
+import { AUTO_SPIN_PER_SECOND, type Rotation } from './transforms';
+
+// Terminal cells are roughly twice as tall as they are wide
+const CELL_ASPECT = 0.5;
+
+// Tumble is the browser renderer's idle spin
+const SPIN_PER_SECOND: Record<string, Rotation> = {
+    tumble: AUTO_SPIN_PER_SECOND,
+    turntable: { x: 0, y: AUTO_SPIN_PER_SECOND.y },
+    none: { x: 0, y: 0 },
+};
+
+const USAGE = `Usage: bun run solid [options]
+
+  --shape <name>        tetrahedron, cube, octahedron, dodecahedron, icosahedron,
+                        geodesic or Conway notation such as tI (default: dodecahedron)
+  --cols <n>            output width in characters (default: 80)
+  --rows <n>            output height in characters (default: fits the width)
+  --fps <n>             frames per second (default: 30)
+  --color <mode>        none, 16, 256 or truecolor (default: none)
+  --charset <ramp>      simple, standard, blocks, braille or a literal ramp
+                        from sparsest to densest (default: simple)
+  --invert              dense glyphs for bright areas, for dark terminals
+  --rotation <x,y>      starting rotation in radians (default: 0,0)
+  --spin <mode>         tumble, turntable or none (default: tumble)
+  --speed <n>           spin speed multiplier (default: 1)
+  --once                print a single frame and exit
+  -h, --help            show this help
+`;
+
+function parseRotation(value: string): Rotation {
+    const [x = 0, y = 0] = value.split(',').map(Number);
+    if (Number.isNaN(x) || Number.isNaN(y)) {
+        throw new Error(`Invalid rotation "${value}", expected "x,y" in radians`);
+    }
+    return { x, y };
+}
+
+// Sizes, rates and speeds: anything else would print empty frames or never tick
+function parsePositive(option: string, value: string, integer = false): number {
+    const number = Number(value);
+    if (!Number.isFinite(number) || number <= 0 || (integer && !Number.isInteger(number))) {
+        throw new Error(`Invalid --${option} "${value}", expected a ${integer ? 'whole ' : ''}number above 0`);
+    }
+    return number;
+}
+
+function main(): void {
+    const { values } = parseArgs({
+        options: {
+            shape: { type: 'string', default: 'dodecahedron' },
+            cols: { type: 'string', default: '80' },
+            rows: { type: 'string' },
+            fps: { type: 'string', default: '30' },
+            color: { type: 'string', default: 'none' },
+            charset: { type: 'string', default: 'simple' },
+            rotation: { type: 'string', default: '0,0' },
+            spin: { type: 'string', default: 'tumble' },
+            speed: { type: 'string', default: '1' },
+            invert: { type: 'boolean', default: false },
+            once: { type: 'boolean', default: false },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+
+    if (values.help) {
+        process.stdout.write(USAGE);
+        return;
+    }
+
+    const columns = parsePositive('cols', values.cols, true);
+    const rows = values.rows !== undefined
+        ? parsePositive('rows', values.rows, true)
+        : Math.max(Math.round(columns * CELL_ASPECT * 0.8), 1);
+    const fps = parsePositive('fps', values.fps);
+    const speed = parsePositive('speed', values.speed);
+    const colorMode = values.color as AnsiColorMode;
+
+    if (!['none', '16', '256', 'truecolor'].includes(colorMode)) {
+        throw new Error(`Unknown color mode "${values.color}"`);
+    }
+    // Own keys only, so "toString" and the like aren't spin modes
+    if (!Object.hasOwn(SPIN_PER_SECOND, values.spin)) {
+        throw new Error(`Unknown spin mode "${values.spin}"`);
+    }
+    const spin = SPIN_PER_SECOND[values.spin];
+
+    const geometry = createGeometry(values.shape);
+    const lighting = { ...DEFAULT_LIGHTING, textured: false };
+    const rotation = parseRotation(values.rotation);
+
+    const draw = () => frameToAnsi(renderAsciiFrame(geometry, {
+        columns,
+        rows,
+        rotation,
+        aspect: columns * CELL_ASPECT / rows,
+        lighting,
+        charSet: values.charset,
+        invertRamp: values.invert,
+    }), colorMode);
+
+    if (values.once) {
+        process.stdout.write(draw().join('\n') + '\n');
+        return;
+    }
+
+    // Hide the cursor while animating and put it back however we exit
+    process.stdout.write('\x1b[?25l\x1b[2J');
+    const restore = () => {
+        process.stdout.write(`${ANSI_RESET}\x1b[?25h\n`);
+        process.exit(0);
+    };
+    process.on('SIGINT', restore);
+    process.on('SIGTERM', restore);
+
+    let previous = performance.now();
+    setInterval(() => {
+        const now = performance.now();
+        const seconds = (now - previous) / 1000;
+        previous = now;
+        rotation.x += spin.x * speed * seconds;
+        rotation.y += spin.y * speed * seconds;
+
+        process.stdout.write('\x1b[H' + draw().join('\n'));
+    }, 1000 / fps);
+}
+
+try {
+    main();
+} catch (error) {
+    console.error((error as Error).message);
+    process.stdout.write(USAGE);
+    process.exit(1);
+}
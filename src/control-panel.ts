@@ -0,0 +1,121 @@
+import type { Renderer } from './renderer';
+import { COLOR_PRESETS, DEFAULT_ASCII_OPTIONS, RAMP_PRESETS, type AsciiOptions } from './ascii-tg-shader';
+import { SHAPES } from './geometries/shapes';
+
+export const FACE_TEXTURES: Record<string, string> = {
+    fox: '/MetaMask-icon-fox-developer.jpg',
+    'fox (inverted)': '/MetaMask-icon-fox-developer-inverted.jpg',
+    'Mona Lisa': '/mona.jpg',
+};
+
+// Terminal widths the grid can snap to
+const COLUMN_PRESETS = ['auto', '80', '120'];
+
+// Colour settings a preset may change, reset before applying the next one
+const COLOR_DEFAULTS: Partial<AsciiOptions> = {
+    colorMode: DEFAULT_ASCII_OPTIONS.colorMode,
+    color: DEFAULT_ASCII_OPTIONS.color,
+    background: DEFAULT_ASCII_OPTIONS.background,
+    palette: DEFAULT_ASCII_OPTIONS.palette,
+    invertRamp: DEFAULT_ASCII_OPTIONS.invertRamp,
+};
+
+export interface ControlPanelState {
+    shape: string;
+    texture: string;
+    charSet: string;
+    colors: string;
+    fontSize: number;
+    columns: number | null;
+    edges: boolean;
+    autoRotate: boolean;
+}
+
+export const DEFAULT_CONTROL_STATE: ControlPanelState = {
+    shape: 'dodecahedron',
+    texture: 'fox',
+    charSet: 'simple',
+    colors: 'scene',
+    fontSize: DEFAULT_ASCII_OPTIONS.fontSize,
+    columns: DEFAULT_ASCII_OPTIONS.columns,
+    edges: DEFAULT_ASCII_OPTIONS.edges,
+    autoRotate: true,
+};
+
+function field(label: string, input: HTMLElement): HTMLLabelElement {
+    const element = document.createElement('label');
+    element.append(label, input);
+    return element;
+}
+
+function select(options: string[], value: string, onChange: (value: string) => void): HTMLSelectElement {
+    const element = document.createElement('select');
+    element.append(...options.map(option => new Option(option, option, false, option === value)));
+    element.addEventListener('change', () => onChange(element.value));
+    return element;
+}
+
+function checkbox(checked: boolean, onChange: (checked: boolean) => void): HTMLInputElement {
+    const element = document.createElement('input');
+    element.type = 'checkbox';
+    element.checked = checked;
+    element.addEventListener('change', () => onChange(element.checked));
+    return element;
+}
+
+/**
+ * A collapsible panel of the renderer's runtime settings. Each control calls the one
+ * setter it affects, so only that resource is rebuilt. `actions` become buttons.
+ */
+export function createControlPanel(renderer: Renderer, initial: Partial<ControlPanelState> = {}, actions: Record<string, () => void> = {}): HTMLElement {
+    const state = { ...DEFAULT_CONTROL_STATE, ...initial };
+
+    const panel = document.createElement('details');
+    panel.className = 'control-panel';
+    const summary = document.createElement('summary');
+    summary.textContent = 'Controls';
+
+    const fontSize = document.createElement('input');
+    fontSize.type = 'range';
+    fontSize.min = '4';
+    fontSize.max = '20';
+    fontSize.value = String(state.fontSize);
+    fontSize.addEventListener('input', () => renderer.setAsciiOptions({ fontSize: Number(fontSize.value) }));
+
+    const columns = String(state.columns ?? 'auto');
+    const columnOptions = [...new Set([...COLUMN_PRESETS, columns])];
+
+    panel.append(
+        summary,
+        field('Shape', select(Object.keys(SHAPES), state.shape, shape => renderer.morphGeometry(SHAPES[shape](), shape))),
+        field('Image', select(Object.keys(FACE_TEXTURES), state.texture, name => {
+            renderer.setTexture(FACE_TEXTURES[name]).catch(error => console.error('Failed to switch image:', error));
+        })),
+        field('Characters', select(Object.keys(RAMP_PRESETS), state.charSet, charSet => renderer.setAsciiOptions({ charSet }))),
+        field('Colors', select(['scene', ...Object.keys(COLOR_PRESETS)], state.colors, name => {
+            renderer.setAsciiOptions({ ...COLOR_DEFAULTS, ...COLOR_PRESETS[name] });
+        })),
+        field('Cell size', fontSize),
+        field('Columns', select(columnOptions, columns, value => {
+            renderer.setAsciiOptions({ columns: value === 'auto' ? null : Number(value) });
+        })),
+        field('Edges', checkbox(state.edges, edges => renderer.setAsciiOptions({ edges }))),
+        field('Auto-rotate', checkbox(state.autoRotate, enabled => renderer.setAutoRotate(enabled))),
+    );
+
+    const buttons = Object.entries(actions).map(([label, action]) => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.textContent = label;
+        button.addEventListener('click', action);
+        return button;
+    });
+    if (buttons.length > 0) {
+        const row = document.createElement('div');
+        row.className = 'control-panel-actions';
+        row.append(...buttons);
+        panel.append(row);
+    }
+
+    return panel;
+}
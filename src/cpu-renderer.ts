@@ -0,0 +1,281 @@
+import { vec4, type mat4, type quat } from 'gl-matrix';
+import type { Geometry } from './geometries/geometry';
+import type { Vec3 } from './geometries/vec3';
+import { readAttribute, triangleIndices } from './geometries/mesh';
+import type { AsciiFrame } from './ascii-frame';
+import { COVERAGE_SORTED_RAMPS, EDGE_CHARS, firstInkedStep, rampIndex, resolveCharSet } from './ascii-tg-shader';
+import { DEFAULT_LIGHTING, shade, type LightingOptions } from './lighting';
+import { Camera } from './camera';
+import { computeFrameMatrices, type Rotation } from './transforms';
+
+// RGBA8 pixels, row-major from the top-left, e.g. an ImageData
+export interface TextureData {
+    width: number;
+    height: number;
+    data: ArrayLike<number>;
+}
+
+export interface CpuRenderOptions {
+    columns: number;
+    rows: number;
+    rotation?: Rotation | quat;
+    // Defaults to the browser renderer's starting camera
+    camera?: Camera;
+    // Viewport width / height; defaults to square cells
+    aspect?: number;
+    // Cells the view spans, when it doesn't end on a cell boundary; defaults to columns x rows
+    viewport?: [number, number];
+    // Face image; plain white when omitted
+    texture?: TextureData | null;
+    lighting?: LightingOptions;
+    // Preset name or literal ramp, as in AsciiOptions.charSet
+    charSet?: string;
+    // Presets in COVERAGE_SORTED_RAMPS order, like the GPU atlas by default; literal
+    // ramps are always used as given, since there's no font here to measure them in
+    sortByCoverage?: boolean;
+    invertRamp?: boolean;
+    // Minimum normal/depth gradient drawn as an EDGE_CHARS glyph; 0 disables edges
+    edgeThreshold?: number;
+}
+
+// One object of a scene, for renderAsciiScene
+export interface CpuMesh {
+    geometry: Geometry;
+    // Placement before the view rotation, e.g. a scene node's world matrix
+    transform?: mat4;
+    // Overrides the options' face image
+    texture?: TextureData | null;
+}
+
+interface ProjectedVertex {
+    x: number;
+    y: number;
+    z: number;
+    invW: number;
+    world: Vec3;
+    normal: Vec3;
+    uv: [number, number];
+}
+
+// Lit samples on a grid `step` samples per cell, one more row and column than the cells
+interface SampleBuffer {
+    columns: number;
+    rows: number;
+    step: number;
+    depth: Float32Array;
+    alpha: Float32Array;
+    colors: Float32Array;
+    // Normal and inverse view distance, as the mesh pass writes for edge detection
+    surface: Float32Array;
+}
+
+/**
+ * Bilinear, clamp-to-edge lookup matching the renderer's linear sampler.
+ */
+export function sampleTexture(texture: TextureData, u: number, v: number): [number, number, number, number] {
+    const x = Math.min(Math.max(u * texture.width - 0.5, 0), texture.width - 1);
+    const y = Math.min(Math.max(v * texture.height - 0.5, 0), texture.height - 1);
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const x1 = Math.min(x0 + 1, texture.width - 1);
+    const y1 = Math.min(y0 + 1, texture.height - 1);
+    const fx = x - x0;
+    const fy = y - y0;
+
+    const texel = (px: number, py: number, channel: number) => texture.data[(py * texture.width + px) * 4 + channel] / 255;
+    const result: [number, number, number, number] = [0, 0, 0, 0];
+    for (let c = 0; c < 4; c++) {
+        const top = texel(x0, y0, c) * (1 - fx) + texel(x1, y0, c) * fx;
+        const bottom = texel(x0, y1, c) * (1 - fx) + texel(x1, y1, c) * fx;
+        result[c] = top * (1 - fy) + bottom * fy;
+    }
+    return result;
+}
+
+function projectVertices(geometry: Geometry, transform: mat4 | undefined, options: CpuRenderOptions, step: number): ProjectedVertex[] {
+    const { columns, rows, rotation = { x: 0, y: 0 }, aspect = columns / rows, camera, viewport = [columns, rows] } = options;
+    const { mvp, model, normalMatrix } = computeFrameMatrices(rotation, aspect, camera, transform);
+
+    const positions = readAttribute(geometry, 'position') ?? [];
+    const normals = readAttribute(geometry, 'normal');
+    const uvs = readAttribute(geometry, 'uv');
+
+    return positions.map((p, i) => {
+        const clip = vec4.transformMat4(vec4.create(), [p[0], p[1], p[2], 1], mvp);
+        const world = vec4.transformMat4(vec4.create(), [p[0], p[1], p[2], 1], model);
+        const n = normals?.[i] ?? [0, 0, 1];
+        const normal = vec4.transformMat4(vec4.create(), [n[0], n[1], n[2], 0], normalMatrix);
+        const invW = 1 / clip[3];
+
+        return {
+            x: (clip[0] * invW + 1) / 2 * viewport[0] * step,
+            y: (1 - clip[1] * invW) / 2 * viewport[1] * step,
+            z: clip[2] * invW,
+            invW: clip[3] > 0 ? invW : 0,
+            world: [world[0], world[1], world[2]],
+            normal: [normal[0], normal[1], normal[2]],
+            uv: (uvs?.[i] as [number, number]) ?? [0, 0],
+        };
+    });
+}
+
+function rasterize(mesh: CpuMesh, options: CpuRenderOptions, target: SampleBuffer): void {
+    const { lighting = DEFAULT_LIGHTING, camera = new Camera() } = options;
+    const texture = mesh.texture === undefined ? options.texture ?? null : mesh.texture;
+    const vertices = projectVertices(mesh.geometry, mesh.transform, options, target.step);
+    const indices = triangleIndices(mesh.geometry);
+    const cameraPosition = camera.position();
+    const cameraDistance = Math.hypot(...cameraPosition);
+
+    for (let t = 0; t + 2 < indices.length; t += 3) {
+        const a = vertices[indices[t]];
+        const b = vertices[indices[t + 1]];
+        const c = vertices[indices[t + 2]];
+        if (a.invW === 0 || b.invW === 0 || c.invW === 0) continue;
+
+        // Screen Y points down, so front-facing (CCW in NDC) triangles have negative area here
+        const area = (b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y);
+        if (area >= 0) continue;
+
+        const minCol = Math.max(Math.ceil(Math.min(a.x, b.x, c.x)), 0);
+        const maxCol = Math.min(Math.floor(Math.max(a.x, b.x, c.x)), target.columns - 1);
+        const minRow = Math.max(Math.ceil(Math.min(a.y, b.y, c.y)), 0);
+        const maxRow = Math.min(Math.floor(Math.max(a.y, b.y, c.y)), target.rows - 1);
+
+        for (let row = minRow; row <= maxRow; row++) {
+            for (let col = minCol; col <= maxCol; col++) {
+                const w0 = ((b.x - col) * (c.y - row) - (c.x - col) * (b.y - row)) / area;
+                const w1 = ((c.x - col) * (a.y - row) - (a.x - col) * (c.y - row)) / area;
+                const w2 = 1 - w0 - w1;
+                if (w0 < 0 || w1 < 0 || w2 < 0) continue;
+
+                const z = w0 * a.z + w1 * b.z + w2 * c.z;
+                const sample = row * target.columns + col;
+                if (z < -1 || z > 1 || z >= target.depth[sample]) continue;
+                target.depth[sample] = z;
+
+                // Perspective-correct interpolation
+                const p0 = w0 * a.invW;
+                const p1 = w1 * b.invW;
+                const p2 = w2 * c.invW;
+                const sum = p0 + p1 + p2;
+                const lerp3 = (ka: number[], kb: number[], kc: number[]) =>
+                    ka.map((value, k) => (value * p0 + kb[k] * p1 + kc[k] * p2) / sum);
+
+                const [u, v] = lerp3(a.uv, b.uv, c.uv);
+                const texel = texture ? sampleTexture(texture, u, v) : [1, 1, 1, 1];
+                const albedo: Vec3 = lighting.textured ? [texel[0], texel[1], texel[2]] : lighting.baseColor;
+                const normal = lerp3(a.normal, b.normal, c.normal) as Vec3;
+                const world = lerp3(a.world, b.world, c.world) as Vec3;
+
+                target.colors.set(shade(lighting, albedo, normal, world, cameraPosition), sample * 3);
+                target.alpha[sample] = lighting.textured ? texel[3] : 1;
+
+                const length = Math.hypot(...normal) || 1;
+                const distance = Math.hypot(world[0] - cameraPosition[0], world[1] - cameraPosition[1], world[2] - cameraPosition[2]);
+                target.surface.set([normal[0] / length, normal[1] / length, normal[2] / length,
+                    cameraDistance / Math.max(distance, 1e-3)], sample * 4);
+            }
+        }
+    }
+}
+
+const SOBEL_X = [-1, 0, 1, -2, 0, 2, -1, 0, 1];
+const SOBEL_Y = [-1, -2, -1, 0, 0, 0, 1, 2, 1];
+
+// CPU mirror of detectEdge in asciiFragmentShader, over the cell's 3x3 half-cell samples
+function detectEdge(samples: SampleBuffer, col: number, row: number): { strength: number; glyph: number; color: Vec3 } {
+    const gx = [0, 0, 0, 0];
+    const gy = [0, 0, 0, 0];
+    let coverageGy = 0;
+    const colorSum = [0, 0, 0, 0];
+
+    for (let i = 0; i < 9; i++) {
+        const sample = (row * 2 + Math.floor(i / 3)) * samples.columns + col * 2 + i % 3;
+        const surface = samples.surface.subarray(sample * 4, sample * 4 + 4);
+        for (let k = 0; k < 4; k++) {
+            gx[k] += surface[k] * SOBEL_X[i];
+            gy[k] += surface[k] * SOBEL_Y[i];
+        }
+        coverageGy += (surface[3] > 0 ? 1 : 0) * SOBEL_Y[i];
+
+        const alpha = samples.alpha[sample];
+        for (let k = 0; k < 3; k++) colorSum[k] += samples.colors[sample * 3 + k] * alpha;
+        colorSum[3] += alpha;
+    }
+
+    const jxx = gx.reduce((sum, g) => sum + g * g, 0);
+    const jyy = gy.reduce((sum, g) => sum + g * g, 0);
+    const jxy = gx.reduce((sum, g, k) => sum + g * gy[k], 0);
+
+    const angle = 0.5 * Math.atan2(2 * jxy, jxx - jyy);
+    const bucket = Math.round((angle + Math.PI) / (Math.PI / 4)) % 4;
+    const weight = Math.max(colorSum[3], 1e-4);
+
+    return {
+        strength: Math.sqrt(jxx + jyy),
+        glyph: bucket === 2 && coverageGy < 0 ? 4 : bucket,
+        color: [colorSum[0] / weight, colorSum[1] / weight, colorSum[2] / weight],
+    };
+}
+
+/**
+ * Software version of TypeGpuRenderer's two passes: rasterizes every mesh with a
+ * shared depth buffer at one sample per character cell, lights and textures each
+ * sample, then maps its luminance onto the character ramp. Needs no GPU or DOM.
+ *
+ * Samples sit on the cell's top-left corner, like the `floor(uv * gridDims)` lookup
+ * in asciiFragmentShader. Edge detection adds samples on a half-cell grid, as the
+ * shader's Sobel filter reads.
+ */
+export function renderAsciiScene(meshes: CpuMesh[], options: CpuRenderOptions): AsciiFrame {
+    const { columns, rows, invertRamp = false, edgeThreshold = 0, sortByCoverage = true } = options;
+    const charSet = options.charSet ?? 'simple';
+    const chars = resolveCharSet(sortByCoverage ? COVERAGE_SORTED_RAMPS[charSet] ?? charSet : charSet);
+    const firstStep = firstInkedStep(chars);
+    const step = edgeThreshold > 0 ? 2 : 1;
+
+    const sampleColumns = columns * step + 1;
+    const sampleRows = rows * step + 1;
+    const samples: SampleBuffer = {
+        columns: sampleColumns,
+        rows: sampleRows,
+        step,
+        depth: new Float32Array(sampleColumns * sampleRows).fill(Infinity),
+        alpha: new Float32Array(sampleColumns * sampleRows),
+        colors: new Float32Array(sampleColumns * sampleRows * 3),
+        surface: new Float32Array(sampleColumns * sampleRows * 4),
+    };
+    meshes.forEach(mesh => rasterize(mesh, options, samples));
+
+    const lines: string[] = [];
+    const colors = new Float32Array(columns * rows * 3);
+    for (let row = 0; row < rows; row++) {
+        let line = '';
+        for (let col = 0; col < columns; col++) {
+            const cell = row * columns + col;
+            const sample = row * step * sampleColumns + col * step;
+            const [r, g, b] = samples.colors.subarray(sample * 3, sample * 3 + 3);
+
+            const edge = edgeThreshold > 0 ? detectEdge(samples, col, row) : null;
+            if (edge && edge.strength > edgeThreshold) {
+                line += EDGE_CHARS[edge.glyph];
+                colors.set(edge.color, cell * 3);
+            } else {
+                line += samples.alpha[sample] > 0 ? chars[rampIndex(r, g, b, chars.length, invertRamp, firstStep)] : ' ';
+                colors.set([r, g, b], cell * 3);
+            }
+        }
+        lines.push(line);
+    }
+
+    return { columns, rows, lines, colors };
+}
+
+export function renderAsciiFrame(geometry: Geometry, options: CpuRenderOptions): AsciiFrame {
+    return renderAsciiScene([{ geometry }], options);
+}
+
+export function renderAsciiLines(geometry: Geometry, options: CpuRenderOptions): string[] {
+    return renderAsciiFrame(geometry, options).lines;
+}
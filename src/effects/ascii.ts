@@ -0,0 +1,124 @@
+import { asciiFragmentShader, cellSizeFor, createAsciiTexture, gridSizeFor, packAsciiUniforms, packPaletteUniforms, ATLAS_OPTIONS, ASCII_UNIFORM_SIZE, DEFAULT_ASCII_OPTIONS, EDGE_CHARS, PALETTE_UNIFORM_SIZE, type AsciiOptions, type GlyphAtlas } from '../ascii-tg-shader';
+import { resolvePalette } from '../palettes';
+import { createFullscreenPipeline, drawFullscreen, type EffectFrame, type PostEffect } from './effect';
+
+// Format of the character grid encodeCells writes
+export const CELL_FORMAT: GPUTextureFormat = 'rgba32float';
+
+/**
+ * The ASCII pass as a chain stage: the previous stage's colours and the mesh pass
+ * surface become glyphs from the atlas.
+ */
+export class AsciiEffect implements PostEffect {
+    readonly name = 'ascii';
+
+    private pipeline: GPURenderPipeline | null = null;
+    private pipelineFormat: GPUTextureFormat | null = null;
+    private cellPipeline: GPURenderPipeline | null = null;
+    private options: AsciiOptions;
+    private atlas: GlyphAtlas | null = null;
+    private sampler: GPUSampler | null = null;
+    private asciiUniformBuffer: GPUBuffer | null = null;
+    private paletteUniformBuffer: GPUBuffer | null = null;
+
+    constructor(options: AsciiOptions = DEFAULT_ASCII_OPTIONS) {
+        this.options = options;
+    }
+
+    setOptions(options: AsciiOptions): void {
+        // Only a new ramp, font or ordering needs a new atlas; the rest are uniforms
+        if (ATLAS_OPTIONS.some(key => options[key] !== this.options[key])) {
+            this.atlas?.texture.destroy();
+            this.atlas = null;
+        }
+        this.options = options;
+    }
+
+    // Atlas characters followed by EDGE_CHARS, indexed like the cell grid
+    get glyphs(): string[] {
+        return [...this.atlas?.chars ?? [], ...EDGE_CHARS];
+    }
+
+    // Width and height of one cell in output pixels, for a frame `width` pixels wide
+    cellSize(device: GPUDevice, width: number, pixelRatio: number): [number, number] {
+        return cellSizeFor(this.options, this.atlasFor(device).cellAspect, width, pixelRatio);
+    }
+
+    // Columns and rows of a frame, which the cell pass of the same frame draws
+    gridSize(device: GPUDevice, width: number, height: number, pixelRatio: number): { columns: number; rows: number } {
+        return gridSizeFor(this.cellSize(device, width, pixelRatio), width, height);
+    }
+
+    encode(frame: EffectFrame): void {
+        if (!this.pipeline || this.pipelineFormat !== frame.format) {
+            this.pipeline = createFullscreenPipeline(frame.device, asciiFragmentShader, frame.format);
+            this.pipelineFormat = frame.format;
+        }
+        const atlas = this.prepare(frame);
+
+        drawFullscreen(frame.encoder, frame.device, this.pipeline, frame.output, [
+            { binding: 0, resource: frame.input.createView() },
+            { binding: 1, resource: atlas.texture.createView() },
+            { binding: 2, resource: this.sampler! },
+            { binding: 3, resource: { buffer: this.asciiUniformBuffer! } },
+            { binding: 4, resource: frame.surface.createView() },
+            { binding: 5, resource: { buffer: this.paletteUniformBuffer! } },
+        ]);
+    }
+
+    /**
+     * Same per-cell logic, one fragment per cell into a grid-sized CELL_FORMAT target:
+     * rgb = glyph colour, a = index into `glyphs`, or -1 where the cell is empty.
+     * `width` and `height` are the frame the grid covers, not the grid itself.
+     */
+    encodeCells(frame: EffectFrame): void {
+        this.cellPipeline ??= createFullscreenPipeline(frame.device, asciiFragmentShader, CELL_FORMAT, 'cellMain');
+        this.prepare(frame);
+
+        // The readback entry point never touches the glyph atlas (binding 1)
+        drawFullscreen(frame.encoder, frame.device, this.cellPipeline, frame.output, [
+            { binding: 0, resource: frame.input.createView() },
+            { binding: 2, resource: this.sampler! },
+            { binding: 3, resource: { buffer: this.asciiUniformBuffer! } },
+            { binding: 4, resource: frame.surface.createView() },
+            { binding: 5, resource: { buffer: this.paletteUniformBuffer! } },
+        ]);
+    }
+
+    private atlasFor(device: GPUDevice): GlyphAtlas {
+        this.atlas ??= createAsciiTexture(device, this.options);
+        return this.atlas;
+    }
+
+    // Creates whatever is missing and writes this frame's uniforms
+    private prepare(frame: EffectFrame): GlyphAtlas {
+        const { device } = frame;
+        const atlas = this.atlasFor(device);
+        this.sampler ??= device.createSampler({ minFilter: 'linear', magFilter: 'linear' });
+        this.asciiUniformBuffer ??= device.createBuffer({
+            size: ASCII_UNIFORM_SIZE,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+        });
+        this.paletteUniformBuffer ??= device.createBuffer({
+            size: PALETTE_UNIFORM_SIZE,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+        });
+
+        const cellSize = cellSizeFor(this.options, atlas.cellAspect, frame.width, frame.pixelRatio);
+        device.queue.writeBuffer(this.asciiUniformBuffer, 0, packAsciiUniforms(this.options, atlas, cellSize, frame.width, frame.height));
+        device.queue.writeBuffer(this.paletteUniformBuffer, 0, packPaletteUniforms(resolvePalette(this.options.palette)));
+        return atlas;
+    }
+
+    destroy(): void {
+        this.atlas?.texture.destroy();
+        this.asciiUniformBuffer?.destroy();
+        this.paletteUniformBuffer?.destroy();
+        this.atlas = null;
+        this.asciiUniformBuffer = null;
+        this.paletteUniformBuffer = null;
+        this.pipeline = null;
+        this.cellPipeline = null;
+        this.sampler = null;
+    }
+}
@@ -0,0 +1,162 @@
+import { createFullscreenPipeline, drawFullscreen, PingPongTargets, type EffectFrame, type PostEffect } from './effect';
+
+export interface BloomOptions {
+    // Brightness above which colours glow, 0..1
+    threshold: number;
+    // How much of the blurred glow is added back
+    strength: number;
+    // Blur reach in CSS pixels
+    radius: number;
+}
+
+export const DEFAULT_BLOOM_OPTIONS: BloomOptions = {
+    threshold: 0.4,
+    strength: 1.2,
+    radius: 6,
+};
+
+// Intermediate blur targets; half floats keep faint glow from banding
+const BLUR_FORMAT: GPUTextureFormat = 'rgba16float';
+
+const bloomFragmentShader = `
+struct Params {
+    texel: vec2f,  // 1 / resolution
+    spread: f32,   // output pixels between taps
+    threshold: f32,
+    strength: f32,
+}
+
+@group(0) @binding(0) var tInput: texture_2d<f32>;
+@group(0) @binding(1) var sInput: sampler;
+@group(0) @binding(2) var<uniform> params: Params;
+@group(0) @binding(3) var tBloom: texture_2d<f32>;
+
+// Gaussian weights for taps 0..4 of a 9-tap kernel
+const WEIGHTS = array<f32, 5>(0.227027, 0.1945946, 0.1216216, 0.054054, 0.016216);
+
+// What is left of a colour above the threshold
+fn bright(color: vec4f) -> vec4f {
+    let luma = dot(color.rgb, vec3f(0.299, 0.587, 0.114));
+    return color * (max(luma - params.threshold, 0.0) / max(luma, 1e-4));
+}
+
+@fragment
+fn blurHorizontal(@location(0) uv: vec2f) -> @location(0) vec4f {
+    let step = vec2f(params.spread * params.texel.x, 0.0);
+    var sum = bright(textureSampleLevel(tInput, sInput, uv, 0.0)) * WEIGHTS[0];
+    for (var i = 1; i < 5; i++) {
+        let offset = step * f32(i);
+        sum += (bright(textureSampleLevel(tInput, sInput, uv + offset, 0.0))
+            + bright(textureSampleLevel(tInput, sInput, uv - offset, 0.0))) * WEIGHTS[i];
+    }
+    return sum;
+}
+
+@fragment
+fn blurVertical(@location(0) uv: vec2f) -> @location(0) vec4f {
+    let step = vec2f(0.0, params.spread * params.texel.y);
+    var sum = textureSampleLevel(tBloom, sInput, uv, 0.0) * WEIGHTS[0];
+    for (var i = 1; i < 5; i++) {
+        let offset = step * f32(i);
+        sum += (textureSampleLevel(tBloom, sInput, uv + offset, 0.0)
+            + textureSampleLevel(tBloom, sInput, uv - offset, 0.0)) * WEIGHTS[i];
+    }
+    return sum;
+}
+
+@fragment
+fn composite(@location(0) uv: vec2f) -> @location(0) vec4f {
+    let color = textureSampleLevel(tInput, sInput, uv, 0.0);
+    let glow = textureSampleLevel(tBloom, sInput, uv, 0.0) * params.strength;
+    return min(color + glow, vec4f(1.0));
+}
+`;
+
+interface BloomPipelines {
+    horizontal: GPURenderPipeline;
+    vertical: GPURenderPipeline;
+    composite: GPURenderPipeline;
+    format: GPUTextureFormat;
+}
+
+/**
+ * Bright areas bleed light into their surroundings: a thresholded separable blur
+ * added back over the input, like the glow of phosphor.
+ */
+export class BloomEffect implements PostEffect {
+    readonly name = 'bloom';
+    options: BloomOptions;
+
+    private pipelines: BloomPipelines | null = null;
+    private sampler: GPUSampler | null = null;
+    private uniformBuffer: GPUBuffer | null = null;
+    // Horizontal then vertical blur results
+    private blurTargets = new PingPongTargets();
+
+    constructor(options: Partial<BloomOptions> = {}) {
+        this.options = { ...DEFAULT_BLOOM_OPTIONS, ...options };
+    }
+
+    setOptions(options: Partial<BloomOptions>): void {
+        this.options = { ...this.options, ...options };
+    }
+
+    encode(frame: EffectFrame): void {
+        const { device, encoder, width, height } = frame;
+        const pipelines = this.pipelinesFor(device, frame.format);
+        const [horizontal, vertical] = this.blurTargets.acquire(device, width, height, BLUR_FORMAT);
+        this.sampler ??= device.createSampler({ minFilter: 'linear', magFilter: 'linear' });
+        this.uniformBuffer ??= device.createBuffer({
+            size: 32,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+        });
+
+        // Nine taps spread over the radius on each side
+        const { threshold, strength, radius } = this.options;
+        device.queue.writeBuffer(this.uniformBuffer, 0, new Float32Array([
+            1 / width, 1 / height,
+            Math.max(radius * frame.pixelRatio / 4, 0),
+            threshold,
+            strength,
+            0, 0, 0,
+        ]));
+
+        const uniforms = { binding: 2, resource: { buffer: this.uniformBuffer } };
+        drawFullscreen(encoder, device, pipelines.horizontal, horizontal.createView(), [
+            { binding: 0, resource: frame.input.createView() },
+            { binding: 1, resource: this.sampler },
+            uniforms,
+        ]);
+        drawFullscreen(encoder, device, pipelines.vertical, vertical.createView(), [
+            { binding: 1, resource: this.sampler },
+            uniforms,
+            { binding: 3, resource: horizontal.createView() },
+        ]);
+        drawFullscreen(encoder, device, pipelines.composite, frame.output, [
+            { binding: 0, resource: frame.input.createView() },
+            { binding: 1, resource: this.sampler },
+            uniforms,
+            { binding: 3, resource: vertical.createView() },
+        ]);
+    }
+
+    private pipelinesFor(device: GPUDevice, format: GPUTextureFormat): BloomPipelines {
+        if (this.pipelines?.format === format) return this.pipelines;
+
+        this.pipelines = {
+            horizontal: createFullscreenPipeline(device, bloomFragmentShader, BLUR_FORMAT, 'blurHorizontal'),
+            vertical: createFullscreenPipeline(device, bloomFragmentShader, BLUR_FORMAT, 'blurVertical'),
+            composite: createFullscreenPipeline(device, bloomFragmentShader, format, 'composite'),
+            format,
+        };
+        return this.pipelines;
+    }
+
+    destroy(): void {
+        this.blurTargets.destroy();
+        this.uniformBuffer?.destroy();
+        this.uniformBuffer = null;
+        this.pipelines = null;
+        this.sampler = null;
+    }
+}
@@ -0,0 +1,81 @@
+import { effectBindings, ShaderEffect, type EffectFrame } from './effect';
+
+export interface CrtOptions {
+    // Barrel distortion; 0 keeps the picture flat
+    curvature: number;
+    // How far scanlines darken the gaps between them, 0..1
+    scanlines: number;
+    // Distance between scanlines in CSS pixels
+    scanlineSpacing: number;
+    // Corner darkening, 0..1
+    vignette: number;
+    // Red and blue fringe offset at the corners, in CSS pixels
+    aberration: number;
+}
+
+export const DEFAULT_CRT_OPTIONS: CrtOptions = {
+    curvature: 0.08,
+    scanlines: 0.35,
+    scanlineSpacing: 3,
+    vignette: 0.4,
+    aberration: 1,
+};
+
+const crtFragmentShader = `
+struct Params {
+    resolution: vec2f,
+    curvature: f32,
+    scanlines: f32,
+    scanlineSpacing: f32, // output pixels
+    vignette: f32,
+    aberration: f32,      // output pixels
+    _pad: f32,
+}
+${effectBindings}
+@fragment
+fn main(@location(0) uv: vec2f) -> @location(0) vec4f {
+    let centered = uv * 2.0 - 1.0;
+    let st = centered * (1.0 + params.curvature * dot(centered, centered)) * 0.5 + 0.5;
+    if (any(st < vec2f(0.0)) || any(st > vec2f(1.0))) {
+        return vec4f(0.0);
+    }
+
+    // Channels drift apart towards the edges
+    let shift = centered * params.aberration / params.resolution;
+    let color = textureSampleLevel(tInput, sInput, st, 0.0);
+    let red = textureSampleLevel(tInput, sInput, st + shift, 0.0);
+    let blue = textureSampleLevel(tInput, sInput, st - shift, 0.0);
+    let alpha = max(color.a, max(red.a, blue.a));
+
+    let row = st.y * params.resolution.y / params.scanlineSpacing;
+    let scan = 1.0 - params.scanlines * (0.5 - 0.5 * cos(row * 6.2831853));
+    let vignette = mix(1.0, pow(16.0 * st.x * st.y * (1.0 - st.x) * (1.0 - st.y), 0.25), params.vignette);
+
+    return vec4f(red.r, color.g, blue.b, alpha) * scan * vignette;
+}
+`;
+
+/**
+ * Curved glass, scanlines, vignette and colour fringing, as on a cathode-ray tube.
+ */
+export class CrtEffect extends ShaderEffect<CrtOptions> {
+    readonly name = 'crt';
+    protected readonly fragmentShader = crtFragmentShader;
+
+    constructor(options: Partial<CrtOptions> = {}) {
+        super({ ...DEFAULT_CRT_OPTIONS, ...options });
+    }
+
+    protected packUniforms(frame: EffectFrame): Float32Array<ArrayBuffer> {
+        const { curvature, scanlines, scanlineSpacing, vignette, aberration } = this.options;
+        return new Float32Array([
+            frame.width, frame.height,
+            curvature,
+            scanlines,
+            Math.max(scanlineSpacing * frame.pixelRatio, 1),
+            vignette,
+            aberration * frame.pixelRatio,
+            0,
+        ]);
+    }
+}
@@ -0,0 +1,60 @@
+import { effectBindings, ShaderEffect, type EffectFrame } from './effect';
+
+export interface DitherOptions {
+    // Values per channel, at least 2
+    levels: number;
+    // Size of one threshold matrix cell in CSS pixels
+    scale: number;
+}
+
+export const DEFAULT_DITHER_OPTIONS: DitherOptions = {
+    levels: 4,
+    scale: 1,
+};
+
+const ditherFragmentShader = `
+struct Params {
+    resolution: vec2f,
+    levels: f32,
+    scale: f32, // output pixels
+}
+${effectBindings}
+// 8x8 Bayer matrix entry: the bits of x ^ y and y interleaved, then reversed
+fn bayer(cell: vec2u) -> f32 {
+    var value = 0u;
+    for (var bit = 0u; bit < 3u; bit++) {
+        let shift = 2u * (2u - bit);
+        value |= ((((cell.x ^ cell.y) >> bit) & 1u) << (shift + 1u)) | (((cell.y >> bit) & 1u) << shift);
+    }
+    return (f32(value) + 0.5) / 64.0;
+}
+
+@fragment
+fn main(@location(0) uv: vec2f) -> @location(0) vec4f {
+    let color = textureSampleLevel(tInput, sInput, uv, 0.0);
+    let threshold = bayer(vec2u(uv * params.resolution / params.scale) % 8u);
+
+    // Quantize straight colour, then premultiply by the dithered alpha
+    let steps = max(params.levels - 1.0, 1.0);
+    let rgb = clamp(floor(color.rgb / max(color.a, 1e-4) * steps + threshold) / steps, vec3f(0.0), vec3f(1.0));
+    let alpha = floor(color.a + threshold);
+    return vec4f(rgb * alpha, alpha);
+}
+`;
+
+/**
+ * Ordered dithering with a Bayer matrix down to a few levels per channel.
+ */
+export class DitherEffect extends ShaderEffect<DitherOptions> {
+    readonly name = 'dither';
+    protected readonly fragmentShader = ditherFragmentShader;
+
+    constructor(options: Partial<DitherOptions> = {}) {
+        super({ ...DEFAULT_DITHER_OPTIONS, ...options });
+    }
+
+    protected packUniforms(frame: EffectFrame): Float32Array<ArrayBuffer> {
+        const { levels, scale } = this.options;
+        return new Float32Array([frame.width, frame.height, Math.max(levels, 2), Math.max(scale * frame.pixelRatio, 1)]);
+    }
+}
@@ -0,0 +1,182 @@
+/**
+ * What one effect draws from and into during a frame.
+ */
+export interface EffectFrame {
+    device: GPUDevice;
+    encoder: GPUCommandEncoder;
+    // Output of the previous effect, or the mesh pass colour for the first
+    input: GPUTexture;
+    // Mesh pass normals and inverse view distance
+    surface: GPUTexture;
+    output: GPUTextureView;
+    format: GPUTextureFormat;
+    width: number;
+    height: number;
+    // Output pixels per CSS pixel; sizes in CSS pixels scale by this, so stills match the canvas
+    pixelRatio: number;
+}
+
+/**
+ * One stage of the post-processing chain. Colours passed between stages are
+ * premultiplied, with a transparent background where nothing was drawn.
+ */
+export interface PostEffect {
+    readonly name: string;
+    // Records the effect's passes; GPU resources are created on first use
+    encode(frame: EffectFrame): void;
+    // Frees GPU resources; encoding again recreates them
+    destroy(): void;
+}
+
+// One triangle covering the viewport; uv runs top-down like the scene texture
+export const fullscreenVertexShader = `
+struct VertexOutput {
+    @builtin(position) position: vec4f,
+    @location(0) uv: vec2f,
+}
+
+@vertex
+fn main(@builtin(vertex_index) index: u32) -> VertexOutput {
+    let pos = vec2f(f32(index & 1u) * 4.0 - 1.0, f32(index >> 1u) * 4.0 - 1.0);
+    var out: VertexOutput;
+    out.position = vec4f(pos, 0.0, 1.0);
+    out.uv = vec2f(pos.x + 1.0, 1.0 - pos.y) * 0.5;
+    return out;
+}
+`;
+
+export function createFullscreenPipeline(device: GPUDevice, fragmentShader: string, format: GPUTextureFormat, entryPoint = 'main'): GPURenderPipeline {
+    return device.createRenderPipeline({
+        layout: 'auto',
+        vertex: {
+            module: device.createShaderModule({ code: fullscreenVertexShader }),
+            entryPoint: 'main',
+        },
+        fragment: {
+            module: device.createShaderModule({ code: fragmentShader }),
+            entryPoint,
+            targets: [{ format }],
+        },
+        primitive: { topology: 'triangle-list' },
+    });
+}
+
+// Runs a fullscreen pipeline whose bind group 0 holds `entries`
+export function drawFullscreen(encoder: GPUCommandEncoder, device: GPUDevice, pipeline: GPURenderPipeline, output: GPUTextureView, entries: GPUBindGroupEntry[]): void {
+    const pass = encoder.beginRenderPass({
+        colorAttachments: [{
+            view: output,
+            clearValue: { r: 0, g: 0, b: 0, a: 0 },
+            loadOp: 'clear',
+            storeOp: 'store',
+        }]
+    });
+    pass.setPipeline(pipeline);
+    pass.setBindGroup(0, device.createBindGroup({ layout: pipeline.getBindGroupLayout(0), entries }));
+    pass.draw(3);
+    pass.end();
+}
+
+// Bindings of every ShaderEffect; the shader declares its own `Params` struct
+export const effectBindings = `
+@group(0) @binding(0) var tInput: texture_2d<f32>;
+@group(0) @binding(1) var sInput: sampler;
+@group(0) @binding(2) var<uniform> params: Params;
+`;
+
+/**
+ * A single fullscreen pass over the previous stage. The fragment shader's `main`
+ * reads `tInput` with `sInput` and its `Params`, as declared by `effectBindings`.
+ */
+export abstract class ShaderEffect<Options extends object> implements PostEffect {
+    abstract readonly name: string;
+    protected abstract readonly fragmentShader: string;
+    options: Options;
+
+    private pipeline: GPURenderPipeline | null = null;
+    private pipelineFormat: GPUTextureFormat | null = null;
+    private sampler: GPUSampler | null = null;
+    private uniformBuffer: GPUBuffer | null = null;
+
+    constructor(options: Options) {
+        this.options = options;
+    }
+
+    setOptions(options: Partial<Options>): void {
+        this.options = { ...this.options, ...options };
+    }
+
+    // The `Params` struct for this frame
+    protected abstract packUniforms(frame: EffectFrame): Float32Array<ArrayBuffer>;
+
+    encode(frame: EffectFrame): void {
+        const { device } = frame;
+        if (!this.pipeline || this.pipelineFormat !== frame.format) {
+            this.pipeline = createFullscreenPipeline(device, this.fragmentShader, frame.format);
+            this.pipelineFormat = frame.format;
+        }
+        this.sampler ??= device.createSampler({ minFilter: 'linear', magFilter: 'linear' });
+
+        const uniforms = this.packUniforms(frame);
+        this.uniformBuffer ??= device.createBuffer({
+            size: uniforms.byteLength,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+        });
+        device.queue.writeBuffer(this.uniformBuffer, 0, uniforms);
+
+        drawFullscreen(frame.encoder, device, this.pipeline, frame.output, [
+            { binding: 0, resource: frame.input.createView() },
+            { binding: 1, resource: this.sampler },
+            { binding: 2, resource: { buffer: this.uniformBuffer } },
+        ]);
+    }
+
+    destroy(): void {
+        this.uniformBuffer?.destroy();
+        this.uniformBuffer = null;
+        this.pipeline = null;
+        this.sampler = null;
+    }
+}
+
+/**
+ * The two intermediate textures effects alternate between, reallocated whenever the
+ * frame size or format changes.
+ */
+export class PingPongTargets {
+    private textures: GPUTexture[] = [];
+
+    acquire(device: GPUDevice, width: number, height: number, format: GPUTextureFormat): GPUTexture[] {
+        const [first] = this.textures;
+        if (!first || first.width !== width || first.height !== height || first.format !== format) {
+            this.destroy();
+            this.textures = [0, 1].map(() => device.createTexture({
+                size: [width, height, 1],
+                format,
+                usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
+            }));
+        }
+        return this.textures;
+    }
+
+    destroy(): void {
+        this.textures.forEach(texture => texture.destroy());
+        this.textures = [];
+    }
+}
+
+/**
+ * Records `effects` in order: each reads the one before, the first reads `frame.input`
+ * and the last writes `frame.output`.
+ */
+export function encodeEffects(effects: PostEffect[], frame: EffectFrame, targets: PingPongTargets): void {
+    const buffers = effects.length > 1 ? targets.acquire(frame.device, frame.width, frame.height, frame.format) : [];
+
+    let input = frame.input;
+    effects.forEach((effect, i) => {
+        const last = i === effects.length - 1;
+        const target = buffers[i % 2];
+        effect.encode({ ...frame, input, output: last ? frame.output : target.createView() });
+        input = target;
+    });
+}
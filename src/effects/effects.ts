@@ -0,0 +1,25 @@
+import type { PostEffect } from './effect';
+import { BloomEffect } from './bloom';
+import { CrtEffect } from './crt';
+import { DitherEffect } from './dither';
+import { HalftoneEffect } from './halftone';
+import { PixelateEffect } from './pixelate';
+
+// The renderer supplies its own 'ascii' stage, so it isn't constructed here
+export const EFFECTS: Record<string, () => PostEffect> = {
+    bloom: () => new BloomEffect(),
+    crt: () => new CrtEffect(),
+    pixelate: () => new PixelateEffect(),
+    halftone: () => new HalftoneEffect(),
+    dither: () => new DitherEffect(),
+};
+
+export const DEFAULT_EFFECTS = ['ascii'];
+
+export function createEffect(name: string): PostEffect {
+    const create = EFFECTS[name];
+    if (!create) {
+        throw new Error(`Unknown effect "${name}"; expected ascii or one of ${Object.keys(EFFECTS).join(', ')}`);
+    }
+    return create();
+}
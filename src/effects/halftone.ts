@@ -0,0 +1,56 @@
+import { effectBindings, ShaderEffect, type EffectFrame } from './effect';
+
+export interface HalftoneOptions {
+    // Dot grid spacing in CSS pixels
+    dotSize: number;
+    // Grid rotation in radians
+    angle: number;
+}
+
+export const DEFAULT_HALFTONE_OPTIONS: HalftoneOptions = {
+    dotSize: 6,
+    angle: Math.PI / 4,
+};
+
+const halftoneFragmentShader = `
+struct Params {
+    resolution: vec2f,
+    dotSize: f32, // output pixels
+    angle: f32,
+}
+${effectBindings}
+@fragment
+fn main(@location(0) uv: vec2f) -> @location(0) vec4f {
+    let c = cos(params.angle);
+    let s = sin(params.angle);
+    let pixel = uv * params.resolution;
+
+    // Into the rotated grid, to the centre of this dot's cell, and back
+    let grid = vec2f(c * pixel.x + s * pixel.y, c * pixel.y - s * pixel.x);
+    let center = (floor(grid / params.dotSize) + 0.5) * params.dotSize;
+    let centerPixel = vec2f(c * center.x - s * center.y, s * center.x + c * center.y);
+    let color = textureSampleLevel(tInput, sInput, centerPixel / params.resolution, 0.0);
+
+    // Dots at full strength, sized so their area matches the brightness
+    let level = max(color.r, max(color.g, color.b));
+    let radius = sqrt(level / 3.14159265) * params.dotSize;
+    let coverage = 1.0 - smoothstep(radius - 0.75, radius + 0.75, length(grid - center));
+    return vec4f(color.rgb / max(level, 1e-4), 1.0) * coverage * step(1e-3, level);
+}
+`;
+
+/**
+ * Replaces the picture with a rotated grid of dots whose size follows the brightness.
+ */
+export class HalftoneEffect extends ShaderEffect<HalftoneOptions> {
+    readonly name = 'halftone';
+    protected readonly fragmentShader = halftoneFragmentShader;
+
+    constructor(options: Partial<HalftoneOptions> = {}) {
+        super({ ...DEFAULT_HALFTONE_OPTIONS, ...options });
+    }
+
+    protected packUniforms(frame: EffectFrame): Float32Array<ArrayBuffer> {
+        return new Float32Array([frame.width, frame.height, Math.max(this.options.dotSize * frame.pixelRatio, 2), this.options.angle]);
+    }
+}
@@ -0,0 +1,40 @@
+import { effectBindings, ShaderEffect, type EffectFrame } from './effect';
+
+export interface PixelateOptions {
+    // Block size in CSS pixels
+    size: number;
+}
+
+export const DEFAULT_PIXELATE_OPTIONS: PixelateOptions = {
+    size: 6,
+};
+
+const pixelateFragmentShader = `
+struct Params {
+    resolution: vec2f,
+    size: f32, // output pixels
+    _pad: f32,
+}
+${effectBindings}
+@fragment
+fn main(@location(0) uv: vec2f) -> @location(0) vec4f {
+    let block = (floor(uv * params.resolution / params.size) + 0.5) * params.size;
+    return textureSampleLevel(tInput, sInput, block / params.resolution, 0.0);
+}
+`;
+
+/**
+ * Fills each square block with the colour at its centre.
+ */
+export class PixelateEffect extends ShaderEffect<PixelateOptions> {
+    readonly name = 'pixelate';
+    protected readonly fragmentShader = pixelateFragmentShader;
+
+    constructor(options: Partial<PixelateOptions> = {}) {
+        super({ ...DEFAULT_PIXELATE_OPTIONS, ...options });
+    }
+
+    protected packUniforms(frame: EffectFrame): Float32Array<ArrayBuffer> {
+        return new Float32Array([frame.width, frame.height, Math.max(this.options.size * frame.pixelRatio, 1), 0]);
+    }
+}
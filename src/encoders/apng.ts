@@ -0,0 +1,95 @@
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (const byte of bytes) {
+        crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Length, type, data, then a CRC over type and data
+function chunk(type: string, data: Uint8Array): Uint8Array<ArrayBuffer> {
+    const bytes = new Uint8Array(12 + data.length);
+    const view = new DataView(bytes.buffer);
+    view.setUint32(0, data.length);
+    bytes.set(Array.from(type, c => c.charCodeAt(0)), 4);
+    bytes.set(data, 8);
+    view.setUint32(8 + data.length, crc32(bytes.subarray(4, 8 + data.length)));
+    return bytes;
+}
+
+function uint32s(...values: number[]): Uint8Array<ArrayBuffer> {
+    const bytes = new Uint8Array(values.length * 4);
+    const view = new DataView(bytes.buffer);
+    values.forEach((value, i) => view.setUint32(i * 4, value));
+    return bytes;
+}
+
+// Unfiltered RGBA scanlines, zlib-compressed with the browser's own deflate
+async function compressFrame(frame: ImageData): Promise<Uint8Array> {
+    const rowBytes = frame.width * 4;
+    const raw = new Uint8Array((rowBytes + 1) * frame.height);
+    for (let y = 0; y < frame.height; y++) {
+        raw.set(frame.data.subarray(y * rowBytes, (y + 1) * rowBytes), y * (rowBytes + 1) + 1);
+    }
+
+    const stream = new Blob([raw]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Encodes equally sized frames as a looping, full-colour animated PNG.
+ */
+export async function encodeApng(frames: ImageData[], fps: number): Promise<Blob> {
+    if (frames.length === 0) {
+        throw new Error('Cannot encode an APNG without frames');
+    }
+
+    const { width, height } = frames[0];
+    const header = new Uint8Array(13);
+    header.set(uint32s(width, height));
+    header.set([8, 6, 0, 0, 0], 8); // 8-bit RGBA, no interlace
+
+    const parts: Uint8Array<ArrayBuffer>[] = [
+        new Uint8Array(PNG_SIGNATURE),
+        chunk('IHDR', header),
+        chunk('acTL', uint32s(frames.length, 0)), // 0 plays = loop forever
+    ];
+
+    // fcTL and fdAT share one sequence counter
+    let sequence = 0;
+    for (let i = 0; i < frames.length; i++) {
+        const control = new Uint8Array(26);
+        control.set(uint32s(sequence++, width, height, 0, 0));
+        new DataView(control.buffer).setUint16(20, 1);
+        new DataView(control.buffer).setUint16(22, fps);
+        // dispose_op and blend_op 0: frames are opaque and fully replace the last one
+        parts.push(chunk('fcTL', control));
+
+        const data = await compressFrame(frames[i]);
+        if (i === 0) {
+            parts.push(chunk('IDAT', data));
+        } else {
+            const frameData = new Uint8Array(4 + data.length);
+            frameData.set(uint32s(sequence++));
+            frameData.set(data, 4);
+            parts.push(chunk('fdAT', frameData));
+        }
+    }
+
+    parts.push(chunk('IEND', new Uint8Array(0)));
+    return new Blob(parts, { type: 'image/apng' });
+}
@@ -0,0 +1,156 @@
+// 5 bits per channel: small enough for a lookup table, fine enough for glyph colours
+const BITS = 5;
+const LEVELS = 1 << BITS;
+const MAX_COLORS = 256;
+
+function binOf(data: Uint8ClampedArray, i: number): number {
+    return ((data[i] >> (8 - BITS)) << (BITS * 2)) | ((data[i + 1] >> (8 - BITS)) << BITS) | (data[i + 2] >> (8 - BITS));
+}
+
+function binColor(bin: number): [number, number, number] {
+    const scale = 255 / (LEVELS - 1);
+    return [
+        Math.round((bin >> (BITS * 2)) * scale),
+        Math.round(((bin >> BITS) & (LEVELS - 1)) * scale),
+        Math.round((bin & (LEVELS - 1)) * scale),
+    ];
+}
+
+/**
+ * One palette for the whole animation: the most common colours across all frames,
+ * plus a table mapping every colour bin to its nearest entry.
+ */
+function buildPalette(frames: ImageData[]): { palette: [number, number, number][]; lookup: Uint8Array } {
+    const counts = new Uint32Array(LEVELS ** 3);
+    for (const frame of frames) {
+        for (let i = 0; i < frame.data.length; i += 4) {
+            counts[binOf(frame.data, i)]++;
+        }
+    }
+
+    const bins = Array.from(counts.keys())
+        .filter(bin => counts[bin] > 0)
+        .sort((a, b) => counts[b] - counts[a])
+        .slice(0, MAX_COLORS);
+    const palette = bins.map(binColor);
+
+    const lookup = new Uint8Array(LEVELS ** 3);
+    for (let bin = 0; bin < lookup.length; bin++) {
+        const [r, g, b] = binColor(bin);
+        let best = 0;
+        let bestDistance = Infinity;
+        palette.forEach((color, i) => {
+            const distance = (color[0] - r) ** 2 + (color[1] - g) ** 2 + (color[2] - b) ** 2;
+            if (distance < bestDistance) {
+                best = i;
+                bestDistance = distance;
+            }
+        });
+        lookup[bin] = best;
+    }
+
+    return { palette, lookup };
+}
+
+// GIF's variable-width LZW, packed LSB-first and split into 255-byte sub-blocks
+export function lzwEncode(indices: Uint8Array, minCodeSize: number): number[] {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    const bytes: number[] = [];
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    let table = new Map<number, number>();
+    let buffer = 0;
+    let bufferBits = 0;
+
+    const emit = (code: number) => {
+        buffer |= code << bufferBits;
+        bufferBits += codeSize;
+        while (bufferBits >= 8) {
+            bytes.push(buffer & 0xff);
+            buffer >>= 8;
+            bufferBits -= 8;
+        }
+    };
+
+    emit(clearCode);
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const key = (prefix << 8) | indices[i];
+        const code = table.get(key);
+        if (code !== undefined) {
+            prefix = code;
+            continue;
+        }
+
+        emit(prefix);
+        if (nextCode === 4096) {
+            emit(clearCode);
+            table = new Map();
+            codeSize = minCodeSize + 1;
+            nextCode = endCode + 1;
+        } else {
+            if (nextCode >= 1 << codeSize) codeSize++;
+            table.set(key, nextCode++);
+        }
+        prefix = indices[i];
+    }
+    emit(prefix);
+    // The decoder adds an entry for that last code too, and may widen before the end code
+    if (nextCode >= 1 << codeSize && codeSize < 12) codeSize++;
+    emit(endCode);
+    if (bufferBits > 0) bytes.push(buffer & 0xff);
+
+    const blocks: number[] = [minCodeSize];
+    for (let i = 0; i < bytes.length; i += 255) {
+        const block = bytes.slice(i, i + 255);
+        blocks.push(block.length, ...block);
+    }
+    blocks.push(0);
+    return blocks;
+}
+
+/**
+ * Encodes equally sized frames as a looping GIF89a.
+ */
+export function encodeGif(frames: ImageData[], fps: number): Blob {
+    if (frames.length === 0) {
+        throw new Error('Cannot encode a GIF without frames');
+    }
+
+    const { width, height } = frames[0];
+    const { palette, lookup } = buildPalette(frames);
+    const delay = Math.round(100 / fps);
+    const word = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+    const parts: Uint8Array<ArrayBuffer>[] = [];
+
+    const colorTable = new Uint8Array(MAX_COLORS * 3);
+    palette.forEach((color, i) => colorTable.set(color, i * 3));
+
+    parts.push(new Uint8Array([
+        ...Array.from('GIF89a', c => c.charCodeAt(0)),
+        ...word(width), ...word(height),
+        0xf7, 0, 0, // global colour table of 256 entries
+    ]));
+    parts.push(colorTable);
+    // NETSCAPE2.0 application extension: loop forever
+    parts.push(new Uint8Array([
+        0x21, 0xff, 0x0b, ...Array.from('NETSCAPE2.0', c => c.charCodeAt(0)), 0x03, 0x01, 0, 0, 0,
+    ]));
+
+    for (const frame of frames) {
+        const indices = new Uint8Array(width * height);
+        for (let p = 0; p < indices.length; p++) {
+            indices[p] = lookup[binOf(frame.data, p * 4)];
+        }
+
+        parts.push(new Uint8Array([
+            0x21, 0xf9, 0x04, 0, ...word(delay), 0, 0, // graphic control extension
+            0x2c, 0, 0, 0, 0, ...word(width), ...word(height), 0, // image descriptor
+        ]));
+        parts.push(new Uint8Array(lzwEncode(indices, 8)));
+    }
+
+    parts.push(new Uint8Array([0x3b]));
+    return new Blob(parts, { type: 'image/gif' });
+}
@@ -0,0 +1,40 @@
+/**
+ * Encodes frames as a WebM through MediaRecorder. The recorder only sees frames in
+ * real time, so each one is pushed to a capture stream and held for 1 / fps seconds.
+ */
+export async function encodeWebm(frames: ImageData[], fps: number): Promise<Blob> {
+    if (frames.length === 0) {
+        throw new Error('Cannot encode a WebM without frames');
+    }
+
+    const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+        .find(type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) {
+        throw new Error('This browser cannot record WebM');
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = frames[0].width;
+    canvas.height = frames[0].height;
+    const context = canvas.getContext('2d')!;
+
+    // Frame rate 0: the stream only emits a frame when asked to
+    const stream = canvas.captureStream(0);
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const recorder = new MediaRecorder(stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = event => chunks.push(event.data);
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+    recorder.start();
+    for (const frame of frames) {
+        context.putImageData(frame, 0, 0);
+        track.requestFrame();
+        await new Promise(resolve => setTimeout(resolve, 1000 / fps));
+    }
+    recorder.stop();
+    await stopped;
+
+    stream.getTracks().forEach(t => t.stop());
+    return new Blob(chunks, { type: 'video/webm' });
+}
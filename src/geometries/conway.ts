@@ -0,0 +1,280 @@
+import { PolyhedronGeometry, faceCenter, faceNormal, normalizeRadius, orientFaces, type Polyhedron } from './polyhedron';
+import { type Vec3, add, average, cross, dot, length, lerp, scale, sub } from './vec3';
+import { TETRAHEDRON } from './tetrahedron';
+import { CUBE } from './cube';
+import { OCTAHEDRON } from './octahedron';
+import { DODECAHEDRON } from './dodecahedron';
+import { ICOSAHEDRON } from './icosahedron';
+
+const SEEDS: Record<string, Polyhedron> = {
+    T: TETRAHEDRON,
+    C: CUBE,
+    O: OCTAHEDRON,
+    D: DODECAHEDRON,
+    I: ICOSAHEDRON,
+};
+
+const OPERATORS: Record<string, (polyhedron: Polyhedron) => Polyhedron> = {
+    d: dual,
+    t: truncate,
+    a: ambo,
+    k: kis,
+    s: snub,
+    e: expand,
+};
+
+function edgeKey(a: number, b: number): string {
+    return `${a}-${b}`;
+}
+
+function undirectedKey(a: number, b: number): string {
+    return a < b ? edgeKey(a, b) : edgeKey(b, a);
+}
+
+// Maps each directed edge a→b to the (outward oriented) face containing it
+function directedEdgeFaces(faces: number[][]): Map<string, number> {
+    const edges = new Map<string, number>();
+    faces.forEach((face, f) => {
+        face.forEach((a, i) => edges.set(edgeKey(a, face[(i + 1) % face.length]), f));
+    });
+    return edges;
+}
+
+function successor(face: number[], v: number): number {
+    return face[(face.indexOf(v) + 1) % face.length];
+}
+
+/**
+ * For every vertex, the faces around it in cyclic order. Consecutive faces
+ * share the edge from the vertex to `successor(face, v)`.
+ */
+function vertexFaceCycles(polyhedron: Polyhedron): number[][] {
+    const edges = directedEdgeFaces(polyhedron.faces);
+    const firstFace = new Map<number, number>();
+    polyhedron.faces.forEach((face, f) => face.forEach(v => {
+        if (!firstFace.has(v)) firstFace.set(v, f);
+    }));
+
+    return polyhedron.vertices.map((_, v) => {
+        const start = firstFace.get(v);
+        if (start === undefined) return [];
+
+        const cycle: number[] = [];
+        let f: number | undefined = start;
+        do {
+            cycle.push(f);
+            f = edges.get(edgeKey(successor(polyhedron.faces[f], v), v));
+        } while (f !== undefined && f !== start && cycle.length <= polyhedron.faces.length);
+
+        return cycle;
+    });
+}
+
+function prepare(polyhedron: Polyhedron): Polyhedron {
+    return orientFaces(normalizeRadius(polyhedron, 1));
+}
+
+// Pole of each face plane with respect to the unit sphere
+function facePoles(vertices: Vec3[], faces: number[][]): Vec3[] {
+    return faces.map(face => {
+        const n = faceNormal(vertices, face);
+        const d = dot(n, faceCenter(vertices, face));
+        return scale(n, 1 / (Math.abs(d) > 1e-9 ? d : 1e-9));
+    });
+}
+
+export function dual(polyhedron: Polyhedron): Polyhedron {
+    const p = prepare(polyhedron);
+    return orientFaces({
+        vertices: facePoles(p.vertices, p.faces),
+        faces: vertexFaceCycles(p),
+    });
+}
+
+export function ambo(polyhedron: Polyhedron): Polyhedron {
+    const p = prepare(polyhedron);
+    const vertices: Vec3[] = [];
+    const midpoints = new Map<string, number>();
+    const midpoint = (a: number, b: number): number => {
+        const key = undirectedKey(a, b);
+        if (!midpoints.has(key)) {
+            midpoints.set(key, vertices.length);
+            vertices.push(lerp(p.vertices[a], p.vertices[b], 0.5));
+        }
+        return midpoints.get(key)!;
+    };
+
+    const faces = p.faces.map(face => face.map((a, i) => midpoint(a, face[(i + 1) % face.length])));
+    vertexFaceCycles(p).forEach((cycle, v) => {
+        faces.push(cycle.map(f => midpoint(v, successor(p.faces[f], v))));
+    });
+
+    return orientFaces({ vertices, faces });
+}
+
+export function truncate(polyhedron: Polyhedron): Polyhedron {
+    const p = prepare(polyhedron);
+    const vertices: Vec3[] = [];
+    const cuts = new Map<string, number>();
+    // Point one third of the way along a→b, nearest to a
+    const cut = (a: number, b: number): number => {
+        const key = edgeKey(a, b);
+        if (!cuts.has(key)) {
+            cuts.set(key, vertices.length);
+            vertices.push(lerp(p.vertices[a], p.vertices[b], 1 / 3));
+        }
+        return cuts.get(key)!;
+    };
+
+    const faces = p.faces.map(face => face.flatMap((a, i) => {
+        const b = face[(i + 1) % face.length];
+        return [cut(a, b), cut(b, a)];
+    }));
+    vertexFaceCycles(p).forEach((cycle, v) => {
+        faces.push(cycle.map(f => cut(v, successor(p.faces[f], v))));
+    });
+
+    return orientFaces({ vertices, faces });
+}
+
+export function kis(polyhedron: Polyhedron): Polyhedron {
+    const p = prepare(polyhedron);
+    const vertices = [...p.vertices];
+    const faces: number[][] = [];
+
+    for (const face of p.faces) {
+        const center = faceCenter(p.vertices, face);
+        const apex = vertices.length;
+        vertices.push(add(center, scale(faceNormal(p.vertices, face), 0.1 * length(center))));
+        face.forEach((a, i) => faces.push([a, face[(i + 1) % face.length], apex]));
+    }
+
+    return orientFaces({ vertices, faces });
+}
+
+// Shared topology of expand and snub: one vertex per (face, corner) pair, shrunk
+// towards the face centre and optionally twisted around the face normal.
+function explode(polyhedron: Polyhedron, twist: number) {
+    const p = prepare(polyhedron);
+    const vertices: Vec3[] = [];
+    const corners = new Map<string, number>();
+
+    p.faces.forEach((face, f) => {
+        const center = faceCenter(p.vertices, face);
+        const n = faceNormal(p.vertices, face);
+        for (const v of face) {
+            const d = scale(sub(p.vertices[v], center), 2 / 3);
+            const rotated = add(scale(d, Math.cos(twist)), scale(cross(n, d), Math.sin(twist)));
+            corners.set(edgeKey(f, v), vertices.length);
+            vertices.push(add(center, rotated));
+        }
+    });
+
+    const corner = (f: number, v: number) => corners.get(edgeKey(f, v))!;
+    const faces = p.faces.map((face, f) => face.map(v => corner(f, v)));
+    vertexFaceCycles(p).forEach((cycle, v) => faces.push(cycle.map(f => corner(f, v))));
+
+    return { p, vertices, faces, corner, edges: directedEdgeFaces(p.faces) };
+}
+
+export function expand(polyhedron: Polyhedron): Polyhedron {
+    const { p, vertices, faces, corner, edges } = explode(polyhedron, 0);
+
+    p.faces.forEach((face, f) => face.forEach((a, i) => {
+        const b = face[(i + 1) % face.length];
+        const g = edges.get(edgeKey(b, a));
+        // Each edge is visited from both sides; emit its quad once
+        if (g === undefined || a > b) return;
+        faces.push([corner(f, a), corner(f, b), corner(g, b), corner(g, a)]);
+    }));
+
+    return orientFaces({ vertices, faces });
+}
+
+export function snub(polyhedron: Polyhedron): Polyhedron {
+    const { p, vertices, faces, corner, edges } = explode(polyhedron, 0.2);
+
+    p.faces.forEach((face, f) => face.forEach((a, i) => {
+        const b = face[(i + 1) % face.length];
+        const g = edges.get(edgeKey(b, a));
+        if (g === undefined || a > b) return;
+        // Split the edge quad along the diagonal joining each face's tail corner,
+        // which picks the same handedness for every edge
+        faces.push([corner(f, a), corner(f, b), corner(g, b)]);
+        faces.push([corner(f, a), corner(g, b), corner(g, a)]);
+    }));
+
+    return orientFaces({ vertices, faces });
+}
+
+// Distance from the origin to the infinite line through a and b
+function edgeDistance(a: Vec3, b: Vec3): number {
+    const ab = sub(b, a);
+    const t = -dot(a, ab) / dot(ab, ab);
+    return length(add(a, scale(ab, t)));
+}
+
+function reciprocalPoles(vertices: Vec3[], faces: number[][]): Vec3[] {
+    const poles = facePoles(vertices, faces);
+    return faces.map((face, f) => {
+        let edgeDist = 0;
+        face.forEach((a, i) => {
+            edgeDist += edgeDistance(vertices[a], vertices[face[(i + 1) % face.length]]);
+        });
+        return scale(poles[f], (1 + edgeDist / face.length) / 2);
+    });
+}
+
+/**
+ * Hart's reciprocal canonicalization: alternately reciprocates the solid and its
+ * dual until every edge is tangent to the unit sphere and every face is planar.
+ * For Archimedean and Catalan solids this converges to the uniform shape.
+ */
+export function canonicalize(polyhedron: Polyhedron, iterations: number = 200): Polyhedron {
+    const p = prepare(polyhedron);
+    const dualFaces = vertexFaceCycles(p);
+    let vertices = p.vertices;
+
+    for (let i = 0; i < iterations; i++) {
+        const center = average(vertices);
+        vertices = vertices.map(v => sub(v, center));
+        const dualVertices = reciprocalPoles(vertices, p.faces);
+        vertices = reciprocalPoles(dualVertices, dualFaces);
+    }
+
+    return orientFaces({ vertices, faces: p.faces });
+}
+
+/**
+ * Evaluates Conway notation right to left, e.g. "tI" (truncated icosahedron),
+ * "aD" (icosidodecahedron) or "dtI" (pentakis dodecahedron).
+ */
+export function conway(notation: string): Polyhedron {
+    const seed = SEEDS[notation.slice(-1)];
+    if (!seed) {
+        throw new Error(`Unknown Conway seed "${notation.slice(-1)}" in "${notation}"`);
+    }
+
+    let polyhedron = prepare(seed);
+    for (const op of notation.slice(0, -1).split('').reverse()) {
+        const operator = OPERATORS[op];
+        if (!operator) {
+            throw new Error(`Unknown Conway operator "${op}" in "${notation}"`);
+        }
+        polyhedron = operator(polyhedron);
+    }
+
+    return notation.length > 1 ? canonicalize(polyhedron) : polyhedron;
+}
+
+// Whether conway() accepts `notation`, without building the polyhedron
+export function isConwayNotation(notation: string): boolean {
+    const [seed, ...ops] = notation.split('').reverse();
+    return seed !== undefined && Object.hasOwn(SEEDS, seed) && ops.every(op => Object.hasOwn(OPERATORS, op));
+}
+
+export class ConwayGeometry extends PolyhedronGeometry {
+    constructor(notation: string) {
+        super(conway(notation));
+    }
+}
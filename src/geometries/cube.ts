@@ -1,60 +1,23 @@
-import type { Geometry } from './geometry';
+import { PolyhedronGeometry, type Polyhedron } from './polyhedron';
 
-export class CubeGeometry implements Geometry {
-    getVertices(): Float32Array {
-        // Cube vertices (Pos + UV)
-        return new Float32Array([
-            // Front face
-            -0.8, -0.8, 0.8, 0, 1,
-            0.8, -0.8, 0.8, 1, 1,
-            0.8, 0.8, 0.8, 1, 0,
-            -0.8, -0.8, 0.8, 0, 1,
-            0.8, 0.8, 0.8, 1, 0,
-            -0.8, 0.8, 0.8, 0, 0,
+export const CUBE: Polyhedron = {
+    // (±1, ±1, ±1)
+    vertices: [
+        [-1, -1, -1], [-1, -1, 1], [-1, 1, -1], [-1, 1, 1],
+        [1, -1, -1], [1, -1, 1], [1, 1, -1], [1, 1, 1],
+    ],
+    faces: [
+        [1, 5, 7, 3], // Front
+        [0, 2, 6, 4], // Back
+        [2, 3, 7, 6], // Top
+        [0, 4, 5, 1], // Bottom
+        [4, 6, 7, 5], // Right
+        [0, 1, 3, 2], // Left
+    ],
+};
 
-            // Back face
-            -0.8, -0.8, -0.8, 1, 1,
-            -0.8, 0.8, -0.8, 1, 0,
-            0.8, 0.8, -0.8, 0, 0,
-            -0.8, -0.8, -0.8, 1, 1,
-            0.8, 0.8, -0.8, 0, 0,
-            0.8, -0.8, -0.8, 0, 1,
-
-            // Top
-            -0.8, 0.8, -0.8, 0, 0,
-            -0.8, 0.8, 0.8, 0, 1,
-            0.8, 0.8, 0.8, 1, 1,
-            -0.8, 0.8, -0.8, 0, 0,
-            0.8, 0.8, 0.8, 1, 1,
-            0.8, 0.8, -0.8, 1, 0,
-
-            // Bottom
-            -0.8, -0.8, -0.8, 0, 1,
-            0.8, -0.8, -0.8, 1, 1,
-            0.8, -0.8, 0.8, 1, 0,
-            -0.8, -0.8, -0.8, 0, 1,
-            0.8, -0.8, 0.8, 1, 0,
-            -0.8, -0.8, 0.8, 0, 0,
-
-            // Right
-            0.8, -0.8, -0.8, 1, 1,
-            0.8, 0.8, -0.8, 1, 0,
-            0.8, 0.8, 0.8, 0, 0,
-            0.8, -0.8, -0.8, 1, 1,
-            0.8, 0.8, 0.8, 0, 0,
-            0.8, -0.8, 0.8, 0, 1,
-
-            // Left
-            -0.8, -0.8, -0.8, 0, 1,
-            -0.8, -0.8, 0.8, 1, 1,
-            -0.8, 0.8, 0.8, 1, 0,
-            -0.8, -0.8, -0.8, 0, 1,
-            -0.8, 0.8, 0.8, 1, 0,
-            -0.8, 0.8, -0.8, 0, 0,
-        ]);
-    }
-
-    getVertexCount(): number {
-        return 36;
+export class CubeGeometry extends PolyhedronGeometry {
+    constructor() {
+        super(CUBE);
     }
 }
@@ -0,0 +1,99 @@
+import type { Geometry } from './geometry';
+import { PolyhedronGeometry } from './polyhedron';
+import { MorphGeometry } from './morph';
+import { readAttribute, triangleIndices } from './mesh';
+import { type Vec3, cross, dot, normalize, sub } from './vec3';
+
+// Triangles meeting at less than this are one flat face, so their shared edge is a diagonal
+const COPLANAR_COSINE = Math.cos(Math.PI / 180);
+
+/**
+ * Every edge of the polygon faces once, as vertex index pairs with the lower index
+ * first, in the order the faces first reach them.
+ */
+export function uniqueEdges(faces: number[][]): [number, number][] {
+    const seen = new Set<string>();
+    const edges: [number, number][] = [];
+
+    for (const face of faces) {
+        face.forEach((a, k) => {
+            const b = face[(k + 1) % face.length];
+            const edge: [number, number] = a < b ? [a, b] : [b, a];
+            const key = edge.join('/');
+            if (a === b || seen.has(key)) return;
+            seen.add(key);
+            edges.push(edge);
+        });
+    }
+    return edges;
+}
+
+/**
+ * Edges of a triangle mesh that aren't diagonals of a flat face: creases and open
+ * borders. Corners are welded by position first, since most meshes split them per face.
+ */
+function meshEdges(geometry: Geometry): { positions: Vec3[]; edges: [number, number][] } {
+    const positions: Vec3[] = [];
+    const welded = new Map<string, number>();
+    const remap = (readAttribute(geometry, 'position') ?? []).map(p => {
+        const key = p.map(c => c.toFixed(5)).join(',');
+        let index = welded.get(key);
+        if (index === undefined) {
+            index = positions.push(p as Vec3) - 1;
+            welded.set(key, index);
+        }
+        return index;
+    });
+
+    // Normals of the triangles on each side of every edge
+    const sides = new Map<string, { edge: [number, number]; normals: Vec3[] }>();
+    const indices = triangleIndices(geometry);
+    for (let t = 0; t + 2 < indices.length; t += 3) {
+        const corners = [remap[indices[t]], remap[indices[t + 1]], remap[indices[t + 2]]];
+        const [a, b, c] = corners.map(i => positions[i]);
+        const normal = normalize(cross(sub(b, a), sub(c, a)));
+
+        corners.forEach((i, k) => {
+            const j = corners[(k + 1) % 3];
+            if (i === j) return;
+            const edge: [number, number] = i < j ? [i, j] : [j, i];
+            const key = edge.join('/');
+            const entry = sides.get(key) ?? { edge, normals: [] };
+            entry.normals.push(normal);
+            sides.set(key, entry);
+        });
+    }
+
+    const edges = [...sides.values()]
+        .filter(({ normals }) => normals.length !== 2 || dot(normals[0], normals[1]) < COPLANAR_COSINE)
+        .map(({ edge }) => edge);
+    return { positions, edges };
+}
+
+const segmentCache = new WeakMap<Geometry, Float32Array>();
+
+/**
+ * The geometry's edges as a flat list of segment endpoints (x, y, z, x, y, z per edge).
+ * Polyhedra use their polygon faces, so a cube has 12 edges rather than 18; other
+ * meshes fall back to the edges between faces that aren't flat. Shapes mid-morph have
+ * none: their creases are only the resampling sphere's.
+ */
+export function edgeSegments(geometry: Geometry): Float32Array {
+    if (geometry instanceof MorphGeometry) return new Float32Array(0);
+    const cached = segmentCache.get(geometry);
+    if (cached) return cached;
+
+    let positions: Vec3[];
+    let edges: [number, number][];
+    if (geometry instanceof PolyhedronGeometry) {
+        const polyhedron = geometry.getPolyhedron();
+        positions = polyhedron.vertices;
+        edges = uniqueEdges(polyhedron.faces);
+    } else {
+        ({ positions, edges } = meshEdges(geometry));
+    }
+
+    const segments = new Float32Array(edges.flatMap(([a, b]) => [...positions[a], ...positions[b]]));
+    segmentCache.set(geometry, segments);
+    return segments;
+}
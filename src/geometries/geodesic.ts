@@ -0,0 +1,98 @@
+import type { Geometry } from './geometry';
+import { IcosahedronGeometry } from './icosahedron';
+import { MeshGeometry, readAttribute, triangleIndices } from './mesh';
+import { type Vec3, cross, length, lerp, normalize, scale, sub } from './vec3';
+
+export interface GeodesicOptions {
+    // Number of 1→4 midpoint subdivision passes
+    detail?: number;
+    // Sphere radius; defaults to the furthest vertex of the source
+    radius?: number;
+    // 0 keeps the subdivided flat faces, 1 projects fully onto the sphere
+    spherify?: number;
+}
+
+interface Corner {
+    position: Vec3;
+    normal: Vec3;
+    uv: [number, number];
+}
+
+function midpoint(a: Corner, b: Corner): Corner {
+    return {
+        position: lerp(a.position, b.position, 0.5),
+        normal: normalize(lerp(a.normal, b.normal, 0.5)),
+        uv: [(a.uv[0] + b.uv[0]) / 2, (a.uv[1] + b.uv[1]) / 2],
+    };
+}
+
+function readTriangles(source: Geometry): Corner[][] {
+    const positions = readAttribute(source, 'position') ?? [];
+    const normals = readAttribute(source, 'normal');
+    const uvs = readAttribute(source, 'uv');
+    const indices = triangleIndices(source);
+
+    const triangles: Corner[][] = [];
+    for (let i = 0; i + 2 < indices.length; i += 3) {
+        const corners = [indices[i], indices[i + 1], indices[i + 2]];
+        const [a, b, c] = corners.map(v => positions[v] as Vec3);
+        const flatNormal = normalize(cross(sub(b, a), sub(c, a)));
+        triangles.push(corners.map(v => ({
+            position: positions[v] as Vec3,
+            normal: (normals?.[v] as Vec3) ?? flatNormal,
+            uv: (uvs?.[v] as [number, number]) ?? [0, 0],
+        })));
+    }
+    return triangles;
+}
+
+/**
+ * Subdivides any triangle geometry (an icosahedron by default) and pushes the
+ * new vertices out onto a sphere. UVs are interpolated, so the face image is kept;
+ * normals blend from the source's towards the sphere's as `spherify` goes to 1.
+ */
+export class GeodesicGeometry extends MeshGeometry {
+    constructor(source: Geometry = new IcosahedronGeometry(), options: GeodesicOptions = {}) {
+        const { detail = 3, spherify = 1 } = options;
+
+        let triangles = readTriangles(source);
+        for (let pass = 0; pass < detail; pass++) {
+            triangles = triangles.flatMap(([a, b, c]) => {
+                const ab = midpoint(a, b);
+                const bc = midpoint(b, c);
+                const ca = midpoint(c, a);
+                return [[a, ab, ca], [ab, b, bc], [ca, bc, c], [ab, bc, ca]];
+            });
+        }
+
+        const radius = options.radius
+            ?? triangles.flat().reduce((max, corner) => Math.max(max, length(corner.position)), 0);
+
+        // Corners shared between neighbouring triangles collapse into one indexed vertex
+        const data: number[] = [];
+        const indices: number[] = [];
+        const lookup = new Map<string, number>();
+
+        for (const triangle of triangles) {
+            for (const { position, normal, uv } of triangle) {
+                const radial = normalize(position);
+                const vertex = [
+                    ...lerp(position, scale(radial, radius), spherify),
+                    ...normalize(lerp(normal, radial, spherify)),
+                    ...uv,
+                ];
+                const key = vertex.map(value => value.toFixed(5)).join(',');
+
+                let index = lookup.get(key);
+                if (index === undefined) {
+                    index = data.length / vertex.length;
+                    lookup.set(key, index);
+                    data.push(...vertex);
+                }
+                indices.push(index);
+            }
+        }
+
+        super(new Float32Array(data), new Uint32Array(indices));
+    }
+}
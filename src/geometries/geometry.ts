@@ -1,4 +1,38 @@
+import type { Vec3 } from './vec3';
+
+export type VertexSemantic = 'position' | 'normal' | 'uv';
+
+export interface VertexAttribute {
+    semantic: VertexSemantic;
+    format: 'float32x2' | 'float32x3';
+    offset: number; // bytes
+}
+
+export interface VertexLayout {
+    arrayStride: number; // bytes
+    attributes: VertexAttribute[];
+}
+
+export interface BoundingBox {
+    min: Vec3;
+    max: Vec3;
+}
+
+export interface BoundingSphere {
+    center: Vec3;
+    radius: number;
+}
+
 export interface Geometry {
+    // Interleaved vertex data, described by getVertexLayout()
     getVertices(): Float32Array;
     getVertexCount(): number;
+    getVertexLayout(): VertexLayout;
+    // Triangle-list indices into getVertices(), or null for a plain triangle list
+    getIndices(): Uint32Array | null;
+    getBoundingBox(): BoundingBox;
+    getBoundingSphere(): BoundingSphere;
+    // Bumped whenever getVertices() changes in place (same vertex count), so renderers
+    // re-upload it; geometry that never changes leaves it out
+    getVersion?(): number;
 }
@@ -0,0 +1,110 @@
+import type { BoundingBox, BoundingSphere, Geometry, VertexLayout, VertexSemantic } from './geometry';
+import { type Vec3, length, lerp, sub } from './vec3';
+
+// Position, normal, UV - the layout every built-in geometry produces
+export const STANDARD_LAYOUT: VertexLayout = {
+    arrayStride: 32,
+    attributes: [
+        { semantic: 'position', format: 'float32x3', offset: 0 },
+        { semantic: 'normal', format: 'float32x3', offset: 12 },
+        { semantic: 'uv', format: 'float32x2', offset: 24 },
+    ],
+};
+
+export const STANDARD_STRIDE = STANDARD_LAYOUT.arrayStride / 4;
+
+/**
+ * Reads one attribute of every vertex, whatever the geometry's layout.
+ * Returns null if the geometry doesn't provide it.
+ */
+export function readAttribute(geometry: Geometry, semantic: VertexSemantic): number[][] | null {
+    const layout = geometry.getVertexLayout();
+    const attribute = layout.attributes.find(a => a.semantic === semantic);
+    if (!attribute) return null;
+
+    const vertices = geometry.getVertices();
+    const stride = layout.arrayStride / 4;
+    const offset = attribute.offset / 4;
+    const size = attribute.format === 'float32x3' ? 3 : 2;
+
+    const values: number[][] = [];
+    for (let i = 0; i < geometry.getVertexCount(); i++) {
+        const start = i * stride + offset;
+        values.push(Array.from(vertices.subarray(start, start + size)));
+    }
+    return values;
+}
+
+// Triangle-list indices for indexed and non-indexed geometry alike
+export function triangleIndices(geometry: Geometry): Uint32Array {
+    const indices = geometry.getIndices();
+    if (indices) return indices;
+    return Uint32Array.from({ length: geometry.getVertexCount() }, (_, i) => i);
+}
+
+export function computeBoundingBox(positions: Vec3[]): BoundingBox {
+    const min: Vec3 = [Infinity, Infinity, Infinity];
+    const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+    for (const p of positions) {
+        for (let k = 0; k < 3; k++) {
+            min[k] = Math.min(min[k], p[k]);
+            max[k] = Math.max(max[k], p[k]);
+        }
+    }
+    return positions.length > 0 ? { min, max } : { min: [0, 0, 0], max: [0, 0, 0] };
+}
+
+// Centred on the box rather than the minimal sphere; tight enough for the convex solids
+export function computeBoundingSphere(positions: Vec3[]): BoundingSphere {
+    const box = computeBoundingBox(positions);
+    const center = lerp(box.min, box.max, 0.5);
+    const radius = positions.reduce((max, p) => Math.max(max, length(sub(p, center))), 0);
+    return { center, radius };
+}
+
+/**
+ * Indexed geometry in STANDARD_LAYOUT. Subclasses compute their vertex and
+ * index arrays up front and hand them to the constructor.
+ */
+export class MeshGeometry implements Geometry {
+    private readonly vertices: Float32Array;
+    private readonly indices: Uint32Array | null;
+    private readonly boundingBox: BoundingBox;
+    private readonly boundingSphere: BoundingSphere;
+
+    constructor(vertices: Float32Array, indices: Uint32Array | null) {
+        this.vertices = vertices;
+        this.indices = indices;
+
+        const positions: Vec3[] = [];
+        for (let i = 0; i < vertices.length; i += STANDARD_STRIDE) {
+            positions.push([vertices[i], vertices[i + 1], vertices[i + 2]]);
+        }
+        this.boundingBox = computeBoundingBox(positions);
+        this.boundingSphere = computeBoundingSphere(positions);
+    }
+
+    getVertices(): Float32Array {
+        return this.vertices;
+    }
+
+    getVertexCount(): number {
+        return this.vertices.length / STANDARD_STRIDE;
+    }
+
+    getVertexLayout(): VertexLayout {
+        return STANDARD_LAYOUT;
+    }
+
+    getIndices(): Uint32Array | null {
+        return this.indices;
+    }
+
+    getBoundingBox(): BoundingBox {
+        return this.boundingBox;
+    }
+
+    getBoundingSphere(): BoundingSphere {
+        return this.boundingSphere;
+    }
+}
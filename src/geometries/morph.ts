@@ -0,0 +1,262 @@
+import type { BoundingBox, BoundingSphere, Geometry } from './geometry';
+import { GeodesicGeometry } from './geodesic';
+import { IcosahedronGeometry } from './icosahedron';
+import { MeshGeometry, STANDARD_STRIDE, computeBoundingBox, computeBoundingSphere, readAttribute, triangleIndices } from './mesh';
+import { type Vec3, add, cross, dot, normalize, scale, sub } from './vec3';
+
+// Subdivision of the shared sphere: 5120 triangles, fine enough for a cube's corners to stay sharp
+const MORPH_DETAIL = 4;
+
+// Resampling casts every sphere ray against every triangle on the main thread; past
+// this many triangles a shape switch would stall visibly
+export const MORPH_TRIANGLE_BUDGET = 2000;
+
+interface RayHit {
+    position: Vec3;
+    // Offset of the triangle hit in the index array
+    triangle: number;
+}
+
+/**
+ * A geometry resampled onto the shared sphere: STANDARD_LAYOUT vertices for the same
+ * triangle list whatever the source, so any two targets blend vertex by vertex.
+ */
+export interface MorphTarget {
+    vertices: Float32Array;
+}
+
+interface MorphSphere {
+    // Unit direction of every distinct corner; neighbouring triangles share them
+    directions: Vec3[];
+    // Index into `directions` of each triangle corner, three per triangle
+    corners: Uint32Array;
+    // Unit direction through each triangle's centre
+    centers: Vec3[];
+}
+
+let morphSphere: MorphSphere | null = null;
+
+function sharedSphere(): MorphSphere {
+    if (morphSphere) return morphSphere;
+
+    const sphere = new GeodesicGeometry(new IcosahedronGeometry(), { detail: MORPH_DETAIL, radius: 1 });
+    const positions = readAttribute(sphere, 'position')!;
+    const directions: Vec3[] = [];
+    const lookup = new Map<string, number>();
+    const corners = Uint32Array.from(triangleIndices(sphere), i => {
+        const direction = normalize(positions[i] as Vec3);
+        const key = direction.map(c => c.toFixed(6)).join(',');
+        let index = lookup.get(key);
+        if (index === undefined) {
+            index = directions.push(direction) - 1;
+            lookup.set(key, index);
+        }
+        return index;
+    });
+
+    const centers: Vec3[] = [];
+    for (let i = 0; i < corners.length; i += 3) {
+        centers.push(normalize(add(add(directions[corners[i]], directions[corners[i + 1]]), directions[corners[i + 2]])));
+    }
+    morphSphere = { directions, corners, centers };
+    return morphSphere;
+}
+
+// Numbers stored per triangle by rayTriangles
+const TRIANGLE_STRIDE = 13;
+
+/**
+ * Per triangle: the cone of directions from `origin` that can reach it (axis and
+ * cosine of its half-angle), then the origin-to-first-corner offset and the two edges
+ * from that corner. Rays outside the cone skip the full intersection test.
+ */
+function rayTriangles(origin: Vec3, positions: Vec3[], indices: Uint32Array): Float64Array {
+    const triangles = new Float64Array(Math.floor(indices.length / 3) * TRIANGLE_STRIDE);
+    for (let t = 0; t + 2 < indices.length; t += 3) {
+        const [a, b, c] = [indices[t], indices[t + 1], indices[t + 2]].map(i => positions[i]);
+        const toCorners = [a, b, c].map(corner => normalize(sub(corner, origin)));
+        const axis = normalize(add(add(toCorners[0], toCorners[1]), toCorners[2]));
+        // Caps of 90 degrees or more aren't convex, so those triangles are always tested
+        const spread = Math.min(...toCorners.map(d => dot(d, axis)));
+        const cosine = spread > 0.01 ? spread - 1e-6 : -2;
+
+        triangles.set([...axis, cosine, ...sub(origin, a), ...sub(b, a), ...sub(c, a)], (t / 3) * TRIANGLE_STRIDE);
+    }
+    return triangles;
+}
+
+// Outermost crossing of the ray from `origin` along `direction`, so meshes that aren't
+// star-shaped still resample to their outer hull (Möller–Trumbore). Runs rays × triangles
+// times, so it sticks to plain numbers.
+function castRay(origin: Vec3, direction: Vec3, triangles: Float64Array): RayHit | null {
+    const [dx, dy, dz] = direction;
+    let best = -1;
+    let bestDistance = 0;
+
+    for (let i = 0; i < triangles.length; i += TRIANGLE_STRIDE) {
+        if (dx * triangles[i] + dy * triangles[i + 1] + dz * triangles[i + 2] < triangles[i + 3]) continue;
+
+        const sx = triangles[i + 4], sy = triangles[i + 5], sz = triangles[i + 6];
+        const e1x = triangles[i + 7], e1y = triangles[i + 8], e1z = triangles[i + 9];
+        const e2x = triangles[i + 10], e2y = triangles[i + 11], e2z = triangles[i + 12];
+
+        const px = dy * e2z - dz * e2y;
+        const py = dz * e2x - dx * e2z;
+        const pz = dx * e2y - dy * e2x;
+        const det = e1x * px + e1y * py + e1z * pz;
+        if (Math.abs(det) < 1e-12) continue;
+
+        const u = (sx * px + sy * py + sz * pz) / det;
+        if (u < -1e-6 || u > 1 + 1e-6) continue;
+        const qx = sy * e1z - sz * e1y;
+        const qy = sz * e1x - sx * e1z;
+        const qz = sx * e1y - sy * e1x;
+        const v = (dx * qx + dy * qy + dz * qz) / det;
+        if (v < -1e-6 || u + v > 1 + 1e-6) continue;
+
+        const distance = (e2x * qx + e2y * qy + e2z * qz) / det;
+        if (distance > bestDistance) {
+            bestDistance = distance;
+            best = (i / TRIANGLE_STRIDE) * 3;
+        }
+    }
+    return best < 0 ? null : { position: add(origin, scale(direction, bestDistance)), triangle: best };
+}
+
+// Barycentric weights of `point` projected onto the plane of a, b, c; outside the
+// triangle they extrapolate, which keeps UVs continuous across a flat face
+function barycentric(point: Vec3, a: Vec3, b: Vec3, c: Vec3): Vec3 {
+    const v0 = sub(b, a);
+    const v1 = sub(c, a);
+    const v2 = sub(point, a);
+    const d00 = dot(v0, v0);
+    const d01 = dot(v0, v1);
+    const d11 = dot(v1, v1);
+    const d20 = dot(v2, v0);
+    const d21 = dot(v2, v1);
+    const denominator = d00 * d11 - d01 * d01;
+    if (Math.abs(denominator) < 1e-12) return [1, 0, 0];
+
+    const v = (d11 * d20 - d01 * d21) / denominator;
+    const w = (d00 * d21 - d01 * d20) / denominator;
+    return [1 - v - w, v, w];
+}
+
+function blend<T extends number[]>(values: T[], weights: Vec3): T {
+    return values[0].map((_, k) => values[0][k] * weights[0] + values[1][k] * weights[1] + values[2][k] * weights[2]) as T;
+}
+
+const targetCache = new WeakMap<Geometry, MorphTarget>();
+
+/**
+ * Casts a ray from the geometry's centre through every corner of the shared sphere.
+ * Corners land exactly on the surface, so no cracks open; each sphere triangle takes
+ * its normals and UVs from the one source triangle under its centre, so faces stay
+ * flat and their images unbroken. Costs rays × triangles, so large models take a while.
+ */
+export function morphTarget(geometry: Geometry): MorphTarget {
+    // A morph cut short starts the next one from wherever it had got to
+    if (geometry instanceof MorphGeometry) return { vertices: geometry.getVertices().slice() };
+    const cached = targetCache.get(geometry);
+    if (cached) return cached;
+
+    const positions = (readAttribute(geometry, 'position') ?? []) as Vec3[];
+    const normals = readAttribute(geometry, 'normal') as Vec3[] | null;
+    const uvs = readAttribute(geometry, 'uv') as [number, number][] | null;
+    const indices = triangleIndices(geometry);
+    const { center, radius } = geometry.getBoundingSphere();
+    const triangles = rayTriangles(center, positions, indices);
+
+    const { directions, corners, centers } = sharedSphere();
+    const vertices = new Float32Array(corners.length * STANDARD_STRIDE);
+    // Open meshes leave gaps; those corners sit on the bounding sphere instead
+    const surface = directions.map(direction =>
+        castRay(center, direction, triangles)?.position ?? add(center, scale(direction, radius)));
+
+    for (let i = 0; i < corners.length; i += 3) {
+        const face = castRay(center, centers[i / 3], triangles);
+        const triangle = face ? [indices[face.triangle], indices[face.triangle + 1], indices[face.triangle + 2]] : null;
+        const [a, b, c] = triangle?.map(v => positions[v]) ?? [];
+        const flatNormal = triangle ? normalize(cross(sub(b, a), sub(c, a))) : null;
+
+        [corners[i], corners[i + 1], corners[i + 2]].forEach((corner, k) => {
+            const direction = directions[corner];
+            const position = surface[corner];
+            let normal = direction;
+            let uv: [number, number] = [0, 0];
+
+            if (triangle) {
+                const weights = barycentric(position, a, b, c);
+                normal = normals ? normalize(blend(triangle.map(v => normals[v]), weights)) : flatNormal!;
+                if (uvs) uv = blend(triangle.map(v => uvs[v]), weights);
+            }
+            vertices.set([...position, ...normal, ...uv], (i + k) * STANDARD_STRIDE);
+        });
+    }
+
+    const target = { vertices };
+    targetCache.set(geometry, target);
+    return target;
+}
+
+// Whether morphTarget is quick enough to run when the user switches shapes
+export function canMorph(geometry: Geometry): boolean {
+    if (geometry instanceof MorphGeometry || targetCache.has(geometry)) return true;
+    return (geometry.getIndices()?.length ?? geometry.getVertexCount()) / 3 <= MORPH_TRIANGLE_BUDGET;
+}
+
+/**
+ * The in-between shape of a running morph. blend() rewrites the vertices in place and
+ * bumps the version, so renderers update one buffer instead of building one per frame.
+ */
+export class MorphGeometry extends MeshGeometry {
+    private readonly blended: Float32Array;
+    private version = 0;
+    private bounds: { version: number; box: BoundingBox; sphere: BoundingSphere } | null = null;
+
+    constructor(start: MorphTarget) {
+        const vertices = start.vertices.slice();
+        super(vertices, null);
+        this.blended = vertices;
+    }
+
+    // `t` = 0 is `from` and 1 is `to`; positions, normals and UVs blend linearly, normals renormalized
+    blend(from: MorphTarget, to: MorphTarget, t: number): void {
+        const a = from.vertices;
+        const b = to.vertices;
+        const vertices = this.blended;
+        for (let i = 0; i < vertices.length; i++) {
+            vertices[i] = a[i] + (b[i] - a[i]) * t;
+        }
+        for (let i = 3; i < vertices.length; i += STANDARD_STRIDE) {
+            const length = Math.hypot(vertices[i], vertices[i + 1], vertices[i + 2]) || 1;
+            vertices[i] /= length;
+            vertices[i + 1] /= length;
+            vertices[i + 2] /= length;
+        }
+        this.version++;
+    }
+
+    getVersion(): number {
+        return this.version;
+    }
+
+    getBoundingBox(): BoundingBox {
+        return this.currentBounds().box;
+    }
+
+    getBoundingSphere(): BoundingSphere {
+        return this.currentBounds().sphere;
+    }
+
+    private currentBounds(): { box: BoundingBox; sphere: BoundingSphere } {
+        if (this.bounds?.version === this.version) return this.bounds;
+
+        const positions: Vec3[] = [];
+        for (let i = 0; i < this.blended.length; i += STANDARD_STRIDE) {
+            positions.push([this.blended[i], this.blended[i + 1], this.blended[i + 2]]);
+        }
+        this.bounds = { version: this.version, box: computeBoundingBox(positions), sphere: computeBoundingSphere(positions) };
+        return this.bounds;
+    }
+}
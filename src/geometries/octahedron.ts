@@ -0,0 +1,18 @@
+import { PolyhedronGeometry, type Polyhedron } from './polyhedron';
+
+export const OCTAHEDRON: Polyhedron = {
+    // (±1, 0, 0), (0, ±1, 0), (0, 0, ±1)
+    vertices: [
+        [1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1],
+    ],
+    faces: [
+        [0, 2, 4], [2, 1, 4], [1, 3, 4], [3, 0, 4],
+        [2, 0, 5], [1, 2, 5], [3, 1, 5], [0, 3, 5],
+    ],
+};
+
+export class OctahedronGeometry extends PolyhedronGeometry {
+    constructor() {
+        super(OCTAHEDRON);
+    }
+}
@@ -0,0 +1,112 @@
+import { MeshGeometry, STANDARD_STRIDE } from './mesh';
+import { type Vec3, average, cross, dot, length, normalize, scale, sub } from './vec3';
+
+export interface Polyhedron {
+    vertices: Vec3[];
+    faces: number[][];
+}
+
+// Circumradius of the original ±0.8 cube, so every solid renders at the same visual size
+export const SOLID_RADIUS = 0.8 * Math.sqrt(3);
+
+// Newell's method, robust for non-planar or nearly degenerate polygons
+export function faceNormal(vertices: Vec3[], face: number[]): Vec3 {
+    const n: Vec3 = [0, 0, 0];
+    for (let i = 0; i < face.length; i++) {
+        const a = vertices[face[i]];
+        const b = vertices[face[(i + 1) % face.length]];
+        n[0] += (a[1] - b[1]) * (a[2] + b[2]);
+        n[1] += (a[2] - b[2]) * (a[0] + b[0]);
+        n[2] += (a[0] - b[0]) * (a[1] + b[1]);
+    }
+    return normalize(n);
+}
+
+export function faceCenter(vertices: Vec3[], face: number[]): Vec3 {
+    return average(face.map(i => vertices[i]));
+}
+
+/**
+ * Reverses any face whose winding points towards the centre of the solid,
+ * so every face is CCW when seen from outside (matches `cullMode: 'back'`).
+ */
+export function orientFaces(polyhedron: Polyhedron): Polyhedron {
+    const center = average(polyhedron.vertices);
+    const faces = polyhedron.faces.map(face => {
+        const outward = sub(faceCenter(polyhedron.vertices, face), center);
+        return dot(faceNormal(polyhedron.vertices, face), outward) < 0 ? [...face].reverse() : [...face];
+    });
+    return { vertices: polyhedron.vertices, faces };
+}
+
+/**
+ * Centres the solid on the origin and scales it so its furthest vertex sits at `radius`.
+ */
+export function normalizeRadius(polyhedron: Polyhedron, radius: number = SOLID_RADIUS): Polyhedron {
+    const center = average(polyhedron.vertices);
+    const centered = polyhedron.vertices.map(v => sub(v, center));
+    const maxLength = Math.max(...centered.map(length));
+    const factor = maxLength > 0 ? radius / maxLength : 1;
+    return {
+        vertices: centered.map(v => scale(v, factor)),
+        faces: polyhedron.faces.map(face => [...face]),
+    };
+}
+
+// Planar projection of a face onto its own tangent plane, fitted into the unit square.
+// "Up" is world +Y so side faces keep the image upright; horizontal faces fall back to Z.
+function faceUvs(vertices: Vec3[], face: number[]): [number, number][] {
+    const n = faceNormal(vertices, face);
+    const up: Vec3 = Math.abs(n[1]) > 0.99 ? [0, 0, n[1] > 0 ? -1 : 1] : [0, 1, 0];
+    const uAxis = normalize(cross(up, n));
+    const vAxis = cross(n, uAxis);
+    const center = faceCenter(vertices, face);
+
+    const projected = face.map(i => {
+        const d = sub(vertices[i], center);
+        return [dot(d, uAxis), dot(d, vAxis)];
+    });
+    const extent = Math.max(...projected.map(([u, v]) => Math.max(Math.abs(u), Math.abs(v)))) || 1;
+
+    return projected.map(([u, v]) => [0.5 + 0.5 * u / extent, 0.5 - 0.5 * v / extent]);
+}
+
+// One vertex per face corner (flat normals, per-face UVs), fan-triangulated through indices
+function buildMesh(polyhedron: Polyhedron): { vertices: Float32Array; indices: Uint32Array } {
+    const { vertices, faces } = polyhedron;
+    const data: number[] = [];
+    const indices: number[] = [];
+
+    for (const face of faces) {
+        const base = data.length / STANDARD_STRIDE;
+        const normal = faceNormal(vertices, face);
+        const uvs = faceUvs(vertices, face);
+        face.forEach((v, corner) => data.push(...vertices[v], ...normal, ...uvs[corner]));
+
+        // Fan triangulation: 0-1-2, 0-2-3, ...
+        for (let k = 1; k < face.length - 1; k++) {
+            indices.push(base, base + k, base + k + 1);
+        }
+    }
+
+    return { vertices: new Float32Array(data), indices: new Uint32Array(indices) };
+}
+
+/**
+ * Generic builder: takes vertex positions and polygon faces (any winding, any size),
+ * orients them outward, fan-triangulates each n-gon and assigns per-face UVs.
+ */
+export class PolyhedronGeometry extends MeshGeometry {
+    private readonly polyhedron: Polyhedron;
+
+    constructor(polyhedron: Polyhedron, radius: number = SOLID_RADIUS) {
+        const oriented = orientFaces(normalizeRadius(polyhedron, radius));
+        const { vertices, indices } = buildMesh(oriented);
+        super(vertices, indices);
+        this.polyhedron = oriented;
+    }
+
+    getPolyhedron(): Polyhedron {
+        return this.polyhedron;
+    }
+}
@@ -0,0 +1,30 @@
+import type { Geometry } from './geometry';
+import { TetrahedronGeometry } from './tetrahedron';
+import { CubeGeometry } from './cube';
+import { OctahedronGeometry } from './octahedron';
+import { DodecahedronGeometry } from './dodecahedron';
+import { IcosahedronGeometry } from './icosahedron';
+import { GeodesicGeometry } from './geodesic';
+import { ConwayGeometry, isConwayNotation } from './conway';
+
+export const SHAPES: Record<string, () => Geometry> = {
+    tetrahedron: () => new TetrahedronGeometry(),
+    cube: () => new CubeGeometry(),
+    octahedron: () => new OctahedronGeometry(),
+    dodecahedron: () => new DodecahedronGeometry(),
+    icosahedron: () => new IcosahedronGeometry(),
+    geodesic: () => new GeodesicGeometry(),
+};
+
+/**
+ * Looks a shape up by name, falling back to Conway notation ("tI", "aD", ...).
+ */
+export function createGeometry(shape: string): Geometry {
+    const name = shape.toLowerCase();
+    return Object.hasOwn(SHAPES, name) ? SHAPES[name]() : new ConwayGeometry(shape);
+}
+
+// Whether createGeometry knows `shape`
+export function isShapeName(shape: string): boolean {
+    return Object.hasOwn(SHAPES, shape.toLowerCase()) || isConwayNotation(shape);
+}
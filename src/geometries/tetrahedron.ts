@@ -0,0 +1,17 @@
+import { PolyhedronGeometry, type Polyhedron } from './polyhedron';
+
+export const TETRAHEDRON: Polyhedron = {
+    // Alternate corners of the (±1, ±1, ±1) cube
+    vertices: [
+        [1, 1, 1], [1, -1, -1], [-1, 1, -1], [-1, -1, 1],
+    ],
+    faces: [
+        [0, 1, 2], [0, 3, 1], [0, 2, 3], [1, 3, 2],
+    ],
+};
+
+export class TetrahedronGeometry extends PolyhedronGeometry {
+    constructor() {
+        super(TETRAHEDRON);
+    }
+}
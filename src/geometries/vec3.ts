@@ -0,0 +1,44 @@
+export type Vec3 = [number, number, number];
+
+export function add(a: Vec3, b: Vec3): Vec3 {
+    return [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+}
+
+export function sub(a: Vec3, b: Vec3): Vec3 {
+    return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+export function scale(a: Vec3, s: number): Vec3 {
+    return [a[0] * s, a[1] * s, a[2] * s];
+}
+
+export function dot(a: Vec3, b: Vec3): number {
+    return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+export function cross(a: Vec3, b: Vec3): Vec3 {
+    return [
+        a[1] * b[2] - a[2] * b[1],
+        a[2] * b[0] - a[0] * b[2],
+        a[0] * b[1] - a[1] * b[0],
+    ];
+}
+
+export function length(a: Vec3): number {
+    return Math.sqrt(dot(a, a));
+}
+
+export function normalize(a: Vec3): Vec3 {
+    const len = length(a);
+    return len > 0 ? scale(a, 1 / len) : [0, 0, 0];
+}
+
+export function lerp(a: Vec3, b: Vec3, t: number): Vec3 {
+    return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+}
+
+export function average(points: Vec3[]): Vec3 {
+    let sum: Vec3 = [0, 0, 0];
+    for (const p of points) sum = add(sum, p);
+    return points.length > 0 ? scale(sum, 1 / points.length) : sum;
+}
@@ -0,0 +1,127 @@
+import { type Vec3, add, dot, length, normalize, scale, sub } from './geometries/vec3';
+
+export const MAX_LIGHTS = 4;
+
+export interface DirectionalLight {
+    type: 'directional';
+    // Direction the light travels, in world space
+    direction: Vec3;
+    color: Vec3;
+    intensity: number;
+}
+
+export interface PointLight {
+    type: 'point';
+    position: Vec3;
+    color: Vec3;
+    intensity: number;
+    // Distance at which the light fades to zero; 0 for inverse-square falloff
+    range: number;
+}
+
+export type Light = DirectionalLight | PointLight;
+
+export type ShadingModel = 'lambert' | 'blinn-phong';
+
+export const SHADING_MODELS: ShadingModel[] = ['lambert', 'blinn-phong'];
+
+export interface LightingOptions {
+    model: ShadingModel;
+    ambient: Vec3;
+    lights: Light[];
+    specular: number;
+    shininess: number;
+    // When false the face image is ignored and lighting alone drives the ASCII density
+    textured: boolean;
+    baseColor: Vec3;
+}
+
+export const DEFAULT_LIGHTING: LightingOptions = {
+    model: 'blinn-phong',
+    ambient: [0.2, 0.2, 0.2],
+    lights: [
+        { type: 'directional', direction: [-0.5, -0.7, -1], color: [1, 1, 1], intensity: 0.9 },
+    ],
+    specular: 0.4,
+    shininess: 32,
+    textured: true,
+    baseColor: [1, 1, 1],
+};
+
+// ambient, baseColor, camera, params + MAX_LIGHTS * (position, color)
+export const LIGHTING_UNIFORM_SIZE = (4 + MAX_LIGHTS * 2) * 16;
+
+/**
+ * Packs the options into the `Lighting` struct layout used by the mesh fragment shader.
+ */
+export function packLightingUniforms(options: LightingOptions, cameraPosition: Vec3): Float32Array<ArrayBuffer> {
+    const data = new Float32Array(LIGHTING_UNIFORM_SIZE / 4);
+    const lights = options.lights.slice(0, MAX_LIGHTS);
+
+    data.set([...options.ambient, 0], 0);
+    data.set([...options.baseColor, options.textured ? 1 : 0], 4);
+    data.set([...cameraPosition, options.shininess], 8);
+    data.set([lights.length, options.specular, options.model === 'blinn-phong' ? 1 : 0, 0], 12);
+
+    lights.forEach((light, i) => {
+        const offset = 16 + i * 8;
+        const color = light.color.map(c => c * light.intensity);
+        if (light.type === 'directional') {
+            data.set([...light.direction, 0], offset);
+            data.set([...color, 0], offset + 4);
+        } else {
+            data.set([...light.position, 1], offset);
+            data.set([...color, light.range], offset + 4);
+        }
+    });
+
+    return data;
+}
+
+/**
+ * CPU mirror of the mesh fragment shader's lighting loop, for the software renderer.
+ */
+export function shade(options: LightingOptions, albedo: Vec3, normal: Vec3, worldPosition: Vec3, cameraPosition: Vec3): Vec3 {
+    const n = normalize(normal);
+    const v = normalize(sub(cameraPosition, worldPosition));
+    let color: Vec3 = [
+        options.ambient[0] * albedo[0],
+        options.ambient[1] * albedo[1],
+        options.ambient[2] * albedo[2],
+    ];
+
+    for (const light of options.lights.slice(0, MAX_LIGHTS)) {
+        let l: Vec3;
+        let attenuation = 1;
+
+        if (light.type === 'directional') {
+            l = normalize(scale(light.direction, -1));
+        } else {
+            const toLight = sub(light.position, worldPosition);
+            const dist = length(toLight);
+            l = normalize(toLight);
+            if (light.range > 0) {
+                const falloff = Math.min(Math.max(1 - dist / light.range, 0), 1);
+                attenuation = falloff * falloff;
+            } else {
+                attenuation = 1 / (1 + dist * dist);
+            }
+        }
+
+        const diffuse = Math.max(dot(n, l), 0);
+        let specular = 0;
+        if (options.model === 'blinn-phong' && diffuse > 0) {
+            const h = normalize(add(l, v));
+            specular = Math.pow(Math.max(dot(n, h), 0), options.shininess) * options.specular;
+        }
+
+        const strength = light.intensity * attenuation;
+        color = add(color, [
+            (albedo[0] * diffuse + specular) * light.color[0] * strength,
+            (albedo[1] * diffuse + specular) * light.color[1] * strength,
+            (albedo[2] * diffuse + specular) * light.color[2] * strength,
+        ]);
+    }
+
+    return [Math.min(color[0], 1), Math.min(color[1], 1), Math.min(color[2], 1)];
+}
@@ -0,0 +1,257 @@
+import { mat3, mat4, vec3 } from 'gl-matrix';
+import type { Vec3 } from '../geometries/vec3';
+import type { MeshGeometry } from '../geometries/mesh';
+import { buildModelGeometry, type ModelOptions, type RawMesh } from './model';
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+
+const TRIANGLES = 4;
+
+const COMPONENT_ARRAYS: Record<number, Float32ArrayConstructor | Uint32ArrayConstructor | Uint16ArrayConstructor | Uint8ArrayConstructor> = {
+    5121: Uint8Array,
+    5123: Uint16Array,
+    5125: Uint32Array,
+    5126: Float32Array,
+};
+
+const TYPE_SIZES: Record<string, number> = { SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4 };
+
+// The parts of the glTF 2.0 schema the loader reads
+interface GltfAccessor {
+    bufferView?: number;
+    byteOffset?: number;
+    componentType: number;
+    normalized?: boolean;
+    count: number;
+    type: string;
+    sparse?: object;
+}
+
+interface GltfBufferView {
+    buffer: number;
+    byteOffset?: number;
+    byteLength: number;
+    byteStride?: number;
+}
+
+interface GltfPrimitive {
+    attributes: Record<string, number>;
+    indices?: number;
+    mode?: number;
+}
+
+interface GltfNode {
+    children?: number[];
+    mesh?: number;
+    matrix?: number[];
+    translation?: number[];
+    rotation?: number[];
+    scale?: number[];
+}
+
+export interface GltfDocument {
+    scene?: number;
+    scenes?: { nodes?: number[] }[];
+    nodes?: GltfNode[];
+    meshes?: { primitives: GltfPrimitive[] }[];
+    accessors?: GltfAccessor[];
+    bufferViews?: GltfBufferView[];
+    buffers?: { uri?: string; byteLength: number }[];
+}
+
+/** Splits a binary .glb into its JSON document and embedded binary chunk. */
+export function parseGlb(data: ArrayBuffer): { document: GltfDocument; binary: ArrayBuffer | null } {
+    const view = new DataView(data);
+    if (data.byteLength < 20 || view.getUint32(0, true) !== GLB_MAGIC) {
+        throw new Error('Not a GLB file');
+    }
+    if (view.getUint32(4, true) !== 2) {
+        throw new Error(`Unsupported GLB version ${view.getUint32(4, true)}`);
+    }
+
+    let document: GltfDocument | null = null;
+    let binary: ArrayBuffer | null = null;
+    for (let offset = 12; offset + 8 <= data.byteLength;) {
+        const length = view.getUint32(offset, true);
+        const type = view.getUint32(offset + 4, true);
+        const chunk = data.slice(offset + 8, offset + 8 + length);
+        if (type === CHUNK_JSON) document = JSON.parse(new TextDecoder().decode(chunk));
+        else if (type === CHUNK_BIN) binary = chunk;
+        offset += 8 + length;
+    }
+
+    if (!document) throw new Error('GLB file has no JSON chunk');
+    return { document, binary };
+}
+
+function decodeDataUri(uri: string): ArrayBuffer {
+    const match = /^data:[^,]*;base64,(.*)$/.exec(uri);
+    if (!match) throw new Error('Only base64 data URIs are supported for glTF buffers');
+    return Uint8Array.from(atob(match[1]), c => c.charCodeAt(0)).buffer;
+}
+
+/**
+ * Resolves a document's buffers: the GLB binary chunk, data URIs, or external files
+ * fetched relative to `baseUrl`.
+ */
+export async function loadGltfBuffers(document: GltfDocument, binary: ArrayBuffer | null = null, baseUrl?: string): Promise<ArrayBuffer[]> {
+    return Promise.all((document.buffers ?? []).map(async (buffer, i) => {
+        if (buffer.uri === undefined) {
+            if (i !== 0 || !binary) throw new Error(`glTF buffer ${i} has no data`);
+            return binary;
+        }
+        if (buffer.uri.startsWith('data:')) return decodeDataUri(buffer.uri);
+        if (!baseUrl) throw new Error(`glTF buffer "${buffer.uri}" is external; load the model from a URL`);
+
+        const response = await fetch(new URL(buffer.uri, baseUrl));
+        if (!response.ok) throw new Error(`Failed to load glTF buffer "${buffer.uri}": ${response.status}`);
+        return response.arrayBuffer();
+    }));
+}
+
+function readAccessor(document: GltfDocument, buffers: ArrayBuffer[], index: number): number[][] {
+    const accessor = document.accessors?.[index];
+    if (!accessor) throw new Error(`glTF accessor ${index} is missing`);
+
+    const size = TYPE_SIZES[accessor.type];
+    const ArrayType = COMPONENT_ARRAYS[accessor.componentType];
+    if (!size || !ArrayType) {
+        throw new Error(`Unsupported glTF accessor ${accessor.type} of component type ${accessor.componentType}`);
+    }
+
+    // Applying the sparse substitutions isn't supported; reading only the base values
+    // would silently drop them
+    if (accessor.sparse) {
+        throw new Error(`glTF accessor ${index}: unsupported sparse accessor`);
+    }
+    // Accessors without a buffer view are all zeros
+    if (accessor.bufferView === undefined) {
+        return Array.from({ length: accessor.count }, () => new Array<number>(size).fill(0));
+    }
+
+    const bufferView = document.bufferViews![accessor.bufferView];
+    const componentSize = ArrayType.BYTES_PER_ELEMENT;
+    const stride = bufferView.byteStride ?? size * componentSize;
+    const start = (bufferView.byteOffset ?? 0) + (accessor.byteOffset ?? 0);
+    const bytes = buffers[bufferView.buffer];
+    const view = new DataView(bytes);
+    // Normalized integers map to [0, 1]; only UVs use them in practice
+    const scale = accessor.normalized && ArrayType !== Float32Array ? 1 / (2 ** (componentSize * 8) - 1) : 1;
+
+    const read = (offset: number): number => {
+        switch (ArrayType) {
+            case Float32Array: return view.getFloat32(offset, true);
+            case Uint32Array: return view.getUint32(offset, true);
+            case Uint16Array: return view.getUint16(offset, true);
+            default: return view.getUint8(offset);
+        }
+    };
+
+    const values: number[][] = [];
+    for (let i = 0; i < accessor.count; i++) {
+        const element: number[] = [];
+        for (let k = 0; k < size; k++) {
+            element.push(read(start + i * stride + k * componentSize) * scale);
+        }
+        values.push(element);
+    }
+    return values;
+}
+
+function nodeMatrix(node: GltfNode): mat4 {
+    if (node.matrix) return mat4.clone(node.matrix as mat4);
+    return mat4.fromRotationTranslationScale(
+        mat4.create(),
+        (node.rotation ?? [0, 0, 0, 1]) as [number, number, number, number],
+        (node.translation ?? [0, 0, 0]) as Vec3,
+        (node.scale ?? [1, 1, 1]) as Vec3,
+    );
+}
+
+/**
+ * Flattens every triangle primitive in the default scene into one mesh, with node
+ * transforms baked in. Materials, skins and animations are ignored.
+ */
+export function parseGltf(document: GltfDocument, buffers: ArrayBuffer[]): RawMesh {
+    const mesh: RawMesh = { positions: [], normals: [], uvs: [], indices: [] };
+    let hasAllNormals = true;
+    let hasAllUvs = true;
+
+    const addPrimitive = (primitive: GltfPrimitive, transform: mat4) => {
+        if ((primitive.mode ?? TRIANGLES) !== TRIANGLES) return;
+        if (primitive.attributes.POSITION === undefined) return;
+
+        const positions = readAccessor(document, buffers, primitive.attributes.POSITION);
+        const normals = primitive.attributes.NORMAL !== undefined
+            ? readAccessor(document, buffers, primitive.attributes.NORMAL)
+            : null;
+        const uvs = primitive.attributes.TEXCOORD_0 !== undefined
+            ? readAccessor(document, buffers, primitive.attributes.TEXCOORD_0)
+            : null;
+        const indices = primitive.indices !== undefined
+            ? readAccessor(document, buffers, primitive.indices).map(([i]) => i)
+            : positions.map((_, i) => i);
+
+        hasAllNormals &&= normals !== null;
+        hasAllUvs &&= uvs !== null;
+
+        const normalMatrix = mat3.normalFromMat4(mat3.create(), transform) ?? mat3.create();
+        // A mirroring transform flips the winding
+        const mirrored = mat4.determinant(transform) < 0;
+
+        const base = mesh.positions.length;
+        positions.forEach((p, i) => {
+            const position = vec3.transformMat4(vec3.create(), p as Vec3, transform);
+            mesh.positions.push([position[0], position[1], position[2]]);
+            if (normals) {
+                const normal = vec3.transformMat3(vec3.create(), normals[i] as Vec3, normalMatrix);
+                mesh.normals!.push([normal[0], normal[1], normal[2]]);
+            } else {
+                mesh.normals!.push([0, 0, 0]);
+            }
+            mesh.uvs!.push(uvs ? [uvs[i][0], uvs[i][1]] : [0, 0]);
+        });
+        for (let t = 0; t + 2 < indices.length; t += 3) {
+            const [a, b, c] = [indices[t], indices[t + 1], indices[t + 2]];
+            mesh.indices.push(base + a, base + (mirrored ? c : b), base + (mirrored ? b : c));
+        }
+    };
+
+    const visit = (index: number, parent: mat4) => {
+        const node = document.nodes?.[index];
+        if (!node) throw new Error(`glTF node ${index} is missing`);
+
+        const transform = mat4.multiply(mat4.create(), parent, nodeMatrix(node));
+        if (node.mesh !== undefined) {
+            document.meshes?.[node.mesh]?.primitives.forEach(primitive => addPrimitive(primitive, transform));
+        }
+        node.children?.forEach(child => visit(child, transform));
+    };
+
+    const scene = document.scenes?.[document.scene ?? 0];
+    if (scene) {
+        scene.nodes?.forEach(node => visit(node, mat4.create()));
+    } else {
+        // No scene: every mesh at the origin, as the spec suggests
+        document.meshes?.forEach(m => m.primitives.forEach(primitive => addPrimitive(primitive, mat4.create())));
+    }
+
+    return {
+        ...mesh,
+        normals: hasAllNormals ? mesh.normals : null,
+        uvs: hasAllUvs ? mesh.uvs : null,
+    };
+}
+
+/** Reads a .gltf (JSON) or .glb file; external buffers are resolved against `baseUrl`. */
+export async function loadGltfGeometry(data: ArrayBuffer, baseUrl?: string, options?: ModelOptions): Promise<MeshGeometry> {
+    const isGlb = data.byteLength >= 4 && new DataView(data).getUint32(0, true) === GLB_MAGIC;
+    const { document, binary } = isGlb
+        ? parseGlb(data)
+        : { document: JSON.parse(new TextDecoder().decode(data)) as GltfDocument, binary: null };
+
+    const buffers = await loadGltfBuffers(document, binary, baseUrl);
+    return buildModelGeometry(parseGltf(document, buffers), options);
+}
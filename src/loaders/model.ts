@@ -0,0 +1,82 @@
+import { MeshGeometry, STANDARD_STRIDE } from '../geometries/mesh';
+import { type Vec3, add, cross, normalize, sub } from '../geometries/vec3';
+
+// Half-width of the built-in cube, so imported models render at the solids' size
+export const MODEL_HALF_SIZE = 0.8;
+
+export type UpAxis = 'y' | 'z';
+
+/**
+ * Triangles as parsed from a file, before normalization. Normals and UVs are either
+ * present for every vertex or generated for all of them.
+ */
+export interface RawMesh {
+    positions: Vec3[];
+    normals: Vec3[] | null;
+    uvs: [number, number][] | null;
+    // Counter-clockwise triangles
+    indices: number[];
+}
+
+export interface ModelOptions {
+    // Z-up files (most CAD exports) are turned so +Z points up the screen
+    upAxis?: UpAxis;
+}
+
+// Area-weighted, so small sliver triangles don't skew the shading
+function vertexNormals(positions: Vec3[], indices: number[]): Vec3[] {
+    const normals: Vec3[] = positions.map(() => [0, 0, 0]);
+    for (let t = 0; t + 2 < indices.length; t += 3) {
+        const [a, b, c] = [indices[t], indices[t + 1], indices[t + 2]];
+        const n = cross(sub(positions[b], positions[a]), sub(positions[c], positions[a]));
+        normals[a] = add(normals[a], n);
+        normals[b] = add(normals[b], n);
+        normals[c] = add(normals[c], n);
+    }
+    return normals.map(n => n[0] || n[1] || n[2] ? normalize(n) : [0, 0, 1]);
+}
+
+// Box projection: each vertex is mapped on the plane facing its normal's dominant axis
+function boxUvs(positions: Vec3[], normals: Vec3[]): [number, number][] {
+    const toUnit = (value: number) => 0.5 + 0.5 * value / MODEL_HALF_SIZE;
+    return positions.map(([x, y, z], i) => {
+        const [nx, ny, nz] = normals[i].map(Math.abs);
+        if (nx >= ny && nx >= nz) return [toUnit(z), 1 - toUnit(y)];
+        if (ny >= nz) return [toUnit(x), 1 - toUnit(z)];
+        return [toUnit(x), 1 - toUnit(y)];
+    });
+}
+
+/**
+ * Centres the mesh, scales its largest dimension to ±MODEL_HALF_SIZE, fills in
+ * missing normals and UVs, and packs it into the standard vertex layout.
+ */
+export function buildModelGeometry(mesh: RawMesh, options: ModelOptions = {}): MeshGeometry {
+    if (mesh.positions.length === 0 || mesh.indices.length < 3) {
+        throw new Error('Model contains no triangles');
+    }
+
+    const yUp = (v: Vec3): Vec3 => options.upAxis === 'z' ? [v[0], v[2], -v[1]] : v;
+    let positions = mesh.positions.map(yUp);
+
+    const min: Vec3 = [Infinity, Infinity, Infinity];
+    const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+    for (const p of positions) {
+        for (let k = 0; k < 3; k++) {
+            min[k] = Math.min(min[k], p[k]);
+            max[k] = Math.max(max[k], p[k]);
+        }
+    }
+    const center: Vec3 = [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2];
+    const halfSize = Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2]) / 2 || 1;
+    const scale = MODEL_HALF_SIZE / halfSize;
+    positions = positions.map(p => [(p[0] - center[0]) * scale, (p[1] - center[1]) * scale, (p[2] - center[2]) * scale]);
+
+    const normals = mesh.normals?.map(n => normalize(yUp(n))) ?? vertexNormals(positions, mesh.indices);
+    const uvs = mesh.uvs ?? boxUvs(positions, normals);
+
+    const vertices = new Float32Array(positions.length * STANDARD_STRIDE);
+    positions.forEach((p, i) => vertices.set([...p, ...normals[i], ...uvs[i]], i * STANDARD_STRIDE));
+
+    return new MeshGeometry(vertices, Uint32Array.from(mesh.indices));
+}
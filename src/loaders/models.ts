@@ -0,0 +1,41 @@
+import type { MeshGeometry } from '../geometries/mesh';
+import type { ModelOptions } from './model';
+import { loadObjGeometry } from './obj';
+import { loadStlGeometry } from './stl';
+import { loadGltfGeometry } from './gltf';
+
+export const MODEL_EXTENSIONS = ['obj', 'stl', 'gltf', 'glb'];
+
+function extensionOf(filename: string): string {
+    return filename.split(/[?#]/)[0].split('.').pop()?.toLowerCase() ?? '';
+}
+
+export function isModelFile(filename: string): boolean {
+    return MODEL_EXTENSIONS.includes(extensionOf(filename));
+}
+
+/**
+ * Builds geometry from a model file's contents, picking the parser by extension.
+ * `baseUrl` resolves any external buffers a .gltf refers to.
+ */
+export async function parseModel(data: ArrayBuffer, filename: string, options?: ModelOptions, baseUrl?: string): Promise<MeshGeometry> {
+    switch (extensionOf(filename)) {
+        case 'obj': return loadObjGeometry(new TextDecoder().decode(data), options);
+        case 'stl': return loadStlGeometry(data, options);
+        case 'gltf':
+        case 'glb': return loadGltfGeometry(data, baseUrl, options);
+        default: throw new Error(`Unsupported model format "${filename}"; expected ${MODEL_EXTENSIONS.join(', ')}`);
+    }
+}
+
+export async function loadModel(url: string, options?: ModelOptions): Promise<MeshGeometry> {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Failed to load model "${url}": ${response.status}`);
+    const baseUrl = new URL(url, window.location.href).href;
+    return parseModel(await response.arrayBuffer(), url, options, baseUrl);
+}
+
+// A dropped or picked file; a .gltf with external buffers can't be read this way
+export async function loadModelFile(file: File, options?: ModelOptions): Promise<MeshGeometry> {
+    return parseModel(await file.arrayBuffer(), file.name, options);
+}
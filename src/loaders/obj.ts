@@ -0,0 +1,108 @@
+import type { Vec3 } from '../geometries/vec3';
+import type { MeshGeometry } from '../geometries/mesh';
+import { buildModelGeometry, type ModelOptions, type RawMesh } from './model';
+
+// 1-based, or negative to count back from the latest entry
+function resolveIndex(token: string | undefined, count: number, line: number): number | null {
+    if (token === undefined || token === '') return null;
+    const index = parseInt(token, 10);
+    if (Number.isNaN(index) || index === 0) {
+        throw new Error(`OBJ line ${line}: invalid index "${token}"`);
+    }
+    const resolved = index > 0 ? index - 1 : count + index;
+    if (resolved < 0 || resolved >= count) {
+        throw new Error(`OBJ line ${line}: index ${index} out of range`);
+    }
+    return resolved;
+}
+
+// The first `count` arguments of a `v`, `vt` or `vn` line as numbers
+function parseNumbers(args: string[], count: number, line: number): number[] {
+    return Array.from({ length: count }, (_, k) => {
+        const value = Number(args[k]);
+        if (!Number.isFinite(value)) {
+            throw new Error(`OBJ line ${line}: invalid number "${args[k] ?? ''}"`);
+        }
+        return value;
+    });
+}
+
+/**
+ * Reads the polygons of a Wavefront OBJ file (`v`, `vt`, `vn` and `f`), merging all
+ * objects and groups. Materials, lines and curves are ignored.
+ */
+export function parseObj(text: string): RawMesh {
+    const positions: Vec3[] = [];
+    const texcoords: [number, number][] = [];
+    const normals: Vec3[] = [];
+
+    const mesh: RawMesh = { positions: [], normals: [], uvs: [], indices: [] };
+    // One output vertex per distinct v/vt/vn triple
+    const corners = new Map<string, number>();
+    let hasAllUvs = true;
+    let hasAllNormals = true;
+
+    text.split(/\r?\n/).forEach((raw, i) => {
+        const line = i + 1;
+        const [keyword, ...args] = raw.trim().split(/\s+/);
+
+        switch (keyword) {
+            case 'v':
+                positions.push(parseNumbers(args, 3, line) as Vec3);
+                break;
+            case 'vt': {
+                // V is optional, and runs bottom to top; the renderer samples top-down
+                const [u, v] = parseNumbers([args[0], args[1] ?? '0'], 2, line);
+                texcoords.push([u, 1 - v]);
+                break;
+            }
+            case 'vn':
+                normals.push(parseNumbers(args, 3, line) as Vec3);
+                break;
+            case 'f': {
+                if (args.length < 3) {
+                    throw new Error(`OBJ line ${line}: faces need at least three vertices`);
+                }
+                const face = args.map(corner => {
+                    const [v, vt, vn] = corner.split('/');
+                    const position = resolveIndex(v, positions.length, line);
+                    if (position === null) {
+                        throw new Error(`OBJ line ${line}: face corner "${corner}" has no position`);
+                    }
+                    const uv = resolveIndex(vt, texcoords.length, line);
+                    const normal = resolveIndex(vn, normals.length, line);
+                    hasAllUvs &&= uv !== null;
+                    hasAllNormals &&= normal !== null;
+
+                    // Keyed by resolved indices, since negative ones shift as the file goes on
+                    const key = `${position}/${uv}/${normal}`;
+                    let index = corners.get(key);
+                    if (index !== undefined) return index;
+
+                    index = mesh.positions.length;
+                    mesh.positions.push(positions[position]);
+                    mesh.uvs!.push(uv !== null ? texcoords[uv] : [0, 0]);
+                    mesh.normals!.push(normal !== null ? normals[normal] : [0, 0, 0]);
+                    corners.set(key, index);
+                    return index;
+                });
+
+                // Fan triangulation: 0-1-2, 0-2-3, ...
+                for (let k = 1; k < face.length - 1; k++) {
+                    mesh.indices.push(face[0], face[k], face[k + 1]);
+                }
+                break;
+            }
+        }
+    });
+
+    return {
+        ...mesh,
+        uvs: hasAllUvs ? mesh.uvs : null,
+        normals: hasAllNormals ? mesh.normals : null,
+    };
+}
+
+export function loadObjGeometry(text: string, options?: ModelOptions): MeshGeometry {
+    return buildModelGeometry(parseObj(text), options);
+}
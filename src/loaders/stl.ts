@@ -0,0 +1,70 @@
+import type { Vec3 } from '../geometries/vec3';
+import type { MeshGeometry } from '../geometries/mesh';
+import { buildModelGeometry, type ModelOptions, type RawMesh } from './model';
+
+const HEADER_SIZE = 80;
+const TRIANGLE_SIZE = 50;
+
+// Binary files may also begin with "solid", so trust the size the header implies
+export function isBinaryStl(data: ArrayBuffer): boolean {
+    if (data.byteLength < HEADER_SIZE + 4) return false;
+    const count = new DataView(data).getUint32(HEADER_SIZE, true);
+    return data.byteLength === HEADER_SIZE + 4 + count * TRIANGLE_SIZE;
+}
+
+function parseBinaryStl(data: ArrayBuffer): Vec3[] {
+    const view = new DataView(data);
+    const count = view.getUint32(HEADER_SIZE, true);
+    const positions: Vec3[] = [];
+
+    for (let t = 0; t < count; t++) {
+        // Skip the stored facet normal; exporters often leave it zeroed
+        const base = HEADER_SIZE + 4 + t * TRIANGLE_SIZE + 12;
+        for (let v = 0; v < 3; v++) {
+            const offset = base + v * 12;
+            positions.push([
+                view.getFloat32(offset, true),
+                view.getFloat32(offset + 4, true),
+                view.getFloat32(offset + 8, true),
+            ]);
+        }
+    }
+    return positions;
+}
+
+function parseAsciiStl(text: string): Vec3[] {
+    const positions: Vec3[] = [];
+    for (const match of text.matchAll(/^\s*vertex\s+(\S+)\s+(\S+)\s+(\S+)/gm)) {
+        const vertex: Vec3 = [Number(match[1]), Number(match[2]), Number(match[3])];
+        if (vertex.some(Number.isNaN)) {
+            throw new Error(`Invalid STL vertex "${match[0].trim()}"`);
+        }
+        positions.push(vertex);
+    }
+    if (positions.length % 3 !== 0) {
+        throw new Error('STL facets must have exactly three vertices');
+    }
+    return positions;
+}
+
+/**
+ * Reads ASCII or binary STL. Triangles share no vertices, so generated normals come
+ * out flat, which suits the faceted parts STL usually holds.
+ */
+export function parseStl(data: ArrayBuffer): RawMesh {
+    const positions = isBinaryStl(data)
+        ? parseBinaryStl(data)
+        : parseAsciiStl(new TextDecoder().decode(data));
+
+    return {
+        positions,
+        normals: null,
+        uvs: null,
+        indices: positions.map((_, i) => i),
+    };
+}
+
+// STL comes from CAD tools, which are mostly Z-up
+export function loadStlGeometry(data: ArrayBuffer, options: ModelOptions = { upAxis: 'z' }): MeshGeometry {
+    return buildModelGeometry(parseStl(data), options);
+}
@@ -1,14 +1,141 @@
 import './style.css'
+import { createRenderer, RENDERER_BACKENDS, type RendererBackend } from './renderer-factory';
 import { TypeGpuRenderer } from './type-gpu-renderer';
+import type { TextMode } from './text-layer';
+import { Timeline } from './timeline';
+import { SCENES } from './scenes';
+import { createControlPanel, FACE_TEXTURES } from './control-panel';
+import { DEFAULT_SCENE_CONFIG, loadPreset, mergeSceneConfig, sceneConfigFromParams, sceneConfigToJson, sceneConfigToParams, type SceneConfig } from './scene-config';
+import { CHAR_SET } from './ascii-tg-shader';
+import { isModelFile, loadModel, loadModelFile } from './loaders/models';
+import { downloadBlob, recordTurntable, TURNTABLE_EXTENSIONS, type TurntableFormat } from './recorder';
+import { WIREFRAME_MODES, type WireframeMode } from './wireframe';
+
+// ?text=overlay or ?text=replace mirrors the art into selectable, screen-reader-friendly text
+const TEXT_MODES: TextMode[] = ['off', 'overlay', 'replace'];
+const textParam = new URLSearchParams(window.location.search).get('text') as TextMode | null;
+const textMode: TextMode = textParam && TEXT_MODES.includes(textParam) ? textParam : 'off';
+
+// ?intro fades the ramp in from '.' to '@' while zooming in, then spins the solid up
+const intro = new Timeline([
+  { time: 0, charSet: '.', zoom: 0.6, rotation: { x: 0, y: 0 }, easing: 'easeOut' },
+  { time: 0.3, charSet: '.:' },
+  { time: 0.6, charSet: '.:-=' },
+  { time: 0.9, charSet: '.:-=+*' },
+  { time: 1.2, charSet: CHAR_SET, zoom: 1, rotation: { x: 0, y: 0 }, easing: 'easeIn' },
+  { time: 3.2, rotation: { x: 0, y: Math.PI * 2 } },
+]);
+const playIntro = new URLSearchParams(window.location.search).has('intro');
+
+// ?renderer=webgl2 or ?renderer=canvas starts further down the fallback chain
+const rendererParam = new URLSearchParams(window.location.search).get('renderer') as RendererBackend | null;
+const backend = rendererParam && RENDERER_BACKENDS.includes(rendererParam) ? rendererParam : undefined;
+
+// ?effects=ascii,bloom,crt stacks post effects in order (WebGPU only)
+const effectsParam = new URLSearchParams(window.location.search).get('effects');
+
+// ?wireframe=overlay, hidden-line or wireframe draws the solids' edges (WebGPU only)
+const wireframeParam = new URLSearchParams(window.location.search).get('wireframe') as WireframeMode | null;
+
+// ?scene=orbit, platonic or morph swaps the lone dodecahedron for a composition
+const sceneParam = new URLSearchParams(window.location.search).get('scene');
+
+// ?preset=<name> loads public/presets/<name>.json, then any config keys in the query
+// and the hash (as written by "Copy link") override it. A preset that fails to load
+// still leaves the overrides to apply.
+const readSceneConfig = async (): Promise<SceneConfig> => {
+  const query = new URLSearchParams(window.location.search);
+  const hash = new URLSearchParams(window.location.hash.slice(1));
+  const preset = hash.get('preset') ?? query.get('preset');
+
+  let config = DEFAULT_SCENE_CONFIG;
+  if (preset) {
+    try {
+      config = mergeSceneConfig(config, await loadPreset(preset));
+    } catch (error) {
+      console.error('Failed to load preset:', error);
+    }
+  }
+  config = mergeSceneConfig(config, sceneConfigFromParams(query));
+  return mergeSceneConfig(config, sceneConfigFromParams(hash));
+};
 
 const app = document.querySelector<HTMLDivElement>('#app');
 
 if (app) {
-  const renderer = new TypeGpuRenderer();
-
   const start = async () => {
     try {
-      await renderer.initialize(app);
+      const renderer = await createRenderer(app, backend);
+
+      let config = DEFAULT_SCENE_CONFIG;
+      try {
+        config = await readSceneConfig();
+        await renderer.setSceneConfig(config);
+      } catch (error) {
+        console.error('Failed to apply scene config:', error);
+      }
+
+      renderer.setTextMode(textMode);
+      if (effectsParam) {
+        try {
+          if (!(renderer instanceof TypeGpuRenderer)) throw new Error('Post effects need the WebGPU renderer');
+          renderer.setEffects(effectsParam.split(','));
+        } catch (error) {
+          console.error('Failed to apply effects:', error);
+        }
+      }
+      if (wireframeParam) {
+        try {
+          if (!(renderer instanceof TypeGpuRenderer)) throw new Error('Wireframe modes need the WebGPU renderer');
+          if (!WIREFRAME_MODES.includes(wireframeParam)) throw new Error(`Unknown wireframe mode "${wireframeParam}"`);
+          renderer.setWireframe({ mode: wireframeParam });
+        } catch (error) {
+          console.error('Failed to apply wireframe mode:', error);
+        }
+      }
+      if (sceneParam && SCENES[sceneParam]) renderer.setScene(SCENES[sceneParam]());
+
+      const panelState = {
+        shape: config.shape,
+        texture: Object.keys(FACE_TEXTURES).find(name => FACE_TEXTURES[name] === config.texture),
+        charSet: config.ascii.charSet,
+        fontSize: config.ascii.fontSize,
+        columns: config.ascii.columns,
+        edges: config.ascii.edges,
+        autoRotate: config.spinSpeed !== 0,
+      };
+      document.body.appendChild(createControlPanel(renderer, panelState, {
+        'Copy link': () => {
+          const url = `${window.location.origin}${window.location.pathname}#${sceneConfigToParams(renderer.getSceneConfig())}`;
+          history.replaceState(null, '', url);
+          navigator.clipboard.writeText(url).catch(error => console.error('Failed to copy link:', error));
+        },
+        'Save preset': () => {
+          const json = sceneConfigToJson(renderer.getSceneConfig());
+          downloadBlob(new Blob([json], { type: 'application/json' }), 'preset.json');
+        },
+      }));
+      if (playIntro) renderer.playTimeline(intro);
+
+      // ?model=<url> or dropping an .obj, .stl, .gltf or .glb file onto the page shows that model
+      const modelName = (filename: string) => filename.split(/[?#]/)[0].split('/').pop()!.replace(/\.[^.]*$/, '');
+      const modelParam = new URLSearchParams(window.location.search).get('model');
+      if (modelParam) {
+        loadModel(modelParam)
+          .then(geometry => renderer.setGeometry(geometry, modelName(modelParam)))
+          .catch(error => console.error('Failed to load model:', error));
+      }
+      window.addEventListener('dragover', (e) => e.preventDefault());
+      window.addEventListener('drop', async (e) => {
+        e.preventDefault();
+        const file = [...(e.dataTransfer?.files ?? [])].find(f => isModelFile(f.name));
+        if (!file) return;
+        try {
+          renderer.setGeometry(await loadModelFile(file), modelName(file.name));
+        } catch (error) {
+          console.error('Failed to load model:', error);
+        }
+      });
 
       const animate = () => {
         requestAnimationFrame(animate);
@@ -19,12 +146,30 @@ if (app) {
         renderer.resize(app.clientWidth, app.clientHeight);
       });
 
+      // G, P or W records a turntable as GIF, APNG or WebM
+      const recordKeys: Record<string, TurntableFormat> = { g: 'gif', p: 'apng', w: 'webm' };
+      let recording = false;
+      window.addEventListener('keydown', async (e) => {
+        const format = recordKeys[e.key.toLowerCase()];
+        if (!format || recording || e.ctrlKey || e.metaKey || e.altKey) return;
+
+        recording = true;
+        try {
+          const blob = await recordTurntable(renderer, { format });
+          downloadBlob(blob, `turntable.${TURNTABLE_EXTENSIONS[format]}`);
+        } catch (error) {
+          console.error('Failed to record turntable:', error);
+        } finally {
+          recording = false;
+        }
+      });
+
       animate();
     } catch (error) {
-      console.error('Failed to initialize TypeGPU renderer:', error);
+      console.error('Failed to initialize renderer:', error);
       app.innerHTML = `<div style="color: white; padding: 20px;">
-        <h2>WebGPU Not Supported</h2>
-        <p>Your browser doesn't seem to support WebGPU, or it is disabled. Please try using a modern browser like Chrome or Edge with WebGPU enabled.</p>
+        <h2>Rendering Not Supported</h2>
+        <p>Your browser couldn't start WebGPU, WebGL2 or a 2D canvas. Please try using a modern browser like Chrome, Edge or Firefox.</p>
       </div>`;
     }
   };
@@ -0,0 +1,150 @@
+import type { VertexLayout, VertexSemantic } from './geometries/geometry';
+import { MAX_LIGHTS } from './lighting';
+
+const SHADER_LOCATIONS: Record<VertexSemantic, number> = {
+    position: 0,
+    uv: 1,
+    normal: 2,
+};
+
+const SHADER_TYPES: Record<VertexSemantic, string> = {
+    position: 'vec3f',
+    uv: 'vec2f',
+    normal: 'vec3f',
+};
+
+// Fallbacks for attributes a geometry doesn't provide
+const DEFAULTS: Record<VertexSemantic, string> = {
+    position: 'vec3f(0.0)',
+    uv: 'vec2f(0.0)',
+    normal: 'vec3f(0.0, 0.0, 1.0)',
+};
+
+export function meshVertexBufferLayout(layout: VertexLayout): GPUVertexBufferLayout {
+    return {
+        arrayStride: layout.arrayStride,
+        attributes: layout.attributes.map(attribute => ({
+            format: attribute.format,
+            offset: attribute.offset,
+            shaderLocation: SHADER_LOCATIONS[attribute.semantic],
+        })),
+    };
+}
+
+/**
+ * Builds the mesh vertex shader for a geometry's layout, so only the attributes
+ * the vertex buffer actually has are declared as inputs.
+ */
+export function meshVertexShader(layout: VertexLayout): string {
+    const semantics = layout.attributes.map(a => a.semantic);
+    const inputs = semantics
+        .map(s => `@location(${SHADER_LOCATIONS[s]}) ${s}: ${SHADER_TYPES[s]},`)
+        .join('\n    ');
+    const read = (s: VertexSemantic) => semantics.includes(s) ? `input.${s}` : DEFAULTS[s];
+
+    return `
+struct MeshUniforms {
+    mvp: mat4x4f,
+    model: mat4x4f,
+    normalMatrix: mat4x4f,
+}
+
+@group(0) @binding(0) var<uniform> mesh: MeshUniforms;
+
+struct VertexInput {
+    ${inputs}
+}
+
+struct VertexOutput {
+    @builtin(position) pos: vec4f,
+    @location(0) uv: vec2f,
+    @location(1) normal: vec3f,
+    @location(2) worldPos: vec3f,
+}
+
+@vertex
+fn main(input: VertexInput) -> VertexOutput {
+    let position = vec4f(${read('position')}, 1.0);
+    var out: VertexOutput;
+    out.pos = mesh.mvp * position;
+    out.uv = ${read('uv')};
+    out.normal = (mesh.normalMatrix * vec4f(${read('normal')}, 0.0)).xyz;
+    out.worldPos = (mesh.model * position).xyz;
+    return out;
+}
+`;
+}
+
+// mvp, model and normal matrices
+export const MESH_UNIFORM_SIZE = 3 * 64;
+
+// Lambert or Blinn-Phong over up to MAX_LIGHTS directional/point lights, see lighting.ts
+export const SURFACE_FORMAT: GPUTextureFormat = 'rgba16float';
+
+export const meshFragmentShader = `
+@group(0) @binding(1) var t: texture_2d<f32>;
+@group(0) @binding(2) var s: sampler;
+@group(0) @binding(3) var<uniform> lighting: Lighting;
+
+struct Light {
+    position: vec4f, // w = 0: direction, w = 1: point position
+    color: vec4f,    // rgb * intensity, a = range
+}
+
+struct Lighting {
+    ambient: vec4f,
+    baseColor: vec4f, // a = 1 when textured
+    camera: vec4f,    // w = shininess
+    params: vec4f,    // x = light count, y = specular, z = 1 for Blinn-Phong
+    lights: array<Light, ${MAX_LIGHTS}>,
+}
+
+struct FragmentOutput {
+    @location(0) color: vec4f,
+    // Normal and inverse view distance, read by the ASCII pass for edge detection
+    @location(1) surface: vec4f,
+}
+
+@fragment
+fn main(@location(0) uv: vec2f, @location(1) normal: vec3f, @location(2) worldPos: vec3f) -> FragmentOutput {
+    let texel = textureSample(t, s, uv);
+    let albedo = select(vec4f(lighting.baseColor.rgb, 1.0), texel, lighting.baseColor.a > 0.5);
+
+    let n = normalize(normal);
+    let v = normalize(lighting.camera.xyz - worldPos);
+    var color = lighting.ambient.rgb * albedo.rgb;
+
+    for (var i = 0u; i < u32(lighting.params.x); i++) {
+        let light = lighting.lights[i];
+        var l = normalize(-light.position.xyz);
+        var attenuation = 1.0;
+
+        if (light.position.w > 0.5) {
+            let toLight = light.position.xyz - worldPos;
+            let dist = length(toLight);
+            l = toLight / dist;
+            if (light.color.a > 0.0) {
+                let falloff = clamp(1.0 - dist / light.color.a, 0.0, 1.0);
+                attenuation = falloff * falloff;
+            } else {
+                attenuation = 1.0 / (1.0 + dist * dist);
+            }
+        }
+
+        let diffuse = max(dot(n, l), 0.0);
+        var specular = 0.0;
+        if (lighting.params.z > 0.5 && diffuse > 0.0) {
+            let h = normalize(l + v);
+            specular = pow(max(dot(n, h), 0.0), lighting.camera.w) * lighting.params.y;
+        }
+
+        color += (albedo.rgb * diffuse + vec3f(specular)) * light.color.rgb * attenuation;
+    }
+
+    let distance = length(lighting.camera.xyz - worldPos);
+    return FragmentOutput(
+        vec4f(min(color, vec3f(1.0)), albedo.a),
+        vec4f(n, length(lighting.camera.xyz) / max(distance, 1e-3)),
+    );
+}
+`;
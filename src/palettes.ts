@@ -0,0 +1,75 @@
+import type { Vec3 } from './geometries/vec3';
+
+export function parseHexColor(hex: string): Vec3 {
+    const match = /^#?([0-9a-f]{6}|[0-9a-f]{3})$/i.exec(hex.trim());
+    if (!match) {
+        throw new Error(`Invalid hex color "${hex}"`);
+    }
+    const digits = match[1].length === 3 ? match[1].replace(/./g, c => c + c) : match[1];
+    return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16) / 255) as Vec3;
+}
+
+export function toHexColor(color: Vec3): string {
+    return '#' + color
+        .map(c => Math.round(Math.min(Math.max(c, 0), 1) * 255).toString(16).padStart(2, '0'))
+        .join('');
+}
+
+// xterm's defaults for the 16 basic ANSI colours, in SGR order (30-37, then 90-97)
+export const ANSI_16: Vec3[] = [
+    '#000000', '#cd0000', '#00cd00', '#cdcd00', '#0000ee', '#cd00cd', '#00cdcd', '#e5e5e5',
+    '#7f7f7f', '#ff0000', '#00ff00', '#ffff00', '#5c5cff', '#ff00ff', '#00ffff', '#ffffff',
+].map(parseHexColor);
+
+// ANSI 16, then the 6x6x6 colour cube, then 24 greys
+export const XTERM_256: Vec3[] = (() => {
+    const levels = [0, 95, 135, 175, 215, 255].map(v => v / 255);
+    const palette = [...ANSI_16];
+    for (let r = 0; r < 6; r++) {
+        for (let g = 0; g < 6; g++) {
+            for (let b = 0; b < 6; b++) {
+                palette.push([levels[r], levels[g], levels[b]]);
+            }
+        }
+    }
+    for (let i = 0; i < 24; i++) {
+        const grey = (8 + i * 10) / 255;
+        palette.push([grey, grey, grey]);
+    }
+    return palette;
+})();
+
+export const PALETTES: Record<string, Vec3[]> = {
+    ansi16: ANSI_16,
+    xterm256: XTERM_256,
+};
+
+export const MAX_PALETTE_SIZE = 256;
+
+export function resolvePalette(palette: string | Vec3[]): Vec3[] {
+    const colors = typeof palette === 'string' ? PALETTES[palette] : palette;
+    if (!colors) {
+        throw new Error(`Unknown palette "${palette}"`);
+    }
+    if (colors.length === 0 || colors.length > MAX_PALETTE_SIZE) {
+        throw new Error(`Palettes need between 1 and ${MAX_PALETTE_SIZE} colors`);
+    }
+    return colors;
+}
+
+// CPU mirror of quantize() in asciiFragmentShader: nearest colour by squared RGB distance
+export function nearestPaletteIndex(color: Vec3, palette: Vec3[]): number {
+    let best = 0;
+    let bestDistance = Infinity;
+    palette.forEach((entry, i) => {
+        const dr = entry[0] - color[0];
+        const dg = entry[1] - color[1];
+        const db = entry[2] - color[2];
+        const distance = dr * dr + dg * dg + db * db;
+        if (distance < bestDistance) {
+            best = i;
+            bestDistance = distance;
+        }
+    });
+    return best;
+}
@@ -0,0 +1,75 @@
+import type { Vec3 } from './geometries/vec3';
+import { turntableRotation, type Rotation } from './transforms';
+import { encodeGif } from './encoders/gif';
+import { encodeApng } from './encoders/apng';
+import { encodeWebm } from './encoders/webm';
+
+export type TurntableFormat = 'gif' | 'apng' | 'webm';
+
+export interface TurntableOptions {
+    format: TurntableFormat;
+    // Frames in one full turn
+    frames: number;
+    // Output size in pixels
+    width: number;
+    height: number;
+    fps: number;
+    // Constant X rotation while the solid turns about Y
+    tilt: number;
+    // Flattened behind the art, since GIF and video have no partial transparency
+    background: Vec3;
+    onProgress?: (completed: number, total: number) => void;
+}
+
+export const DEFAULT_TURNTABLE_OPTIONS: TurntableOptions = {
+    format: 'gif',
+    frames: 90,
+    width: 480,
+    height: 480,
+    fps: 30,
+    tilt: 0.35,
+    background: [13 / 255, 17 / 255, 23 / 255],
+};
+
+export const TURNTABLE_EXTENSIONS: Record<TurntableFormat, string> = {
+    gif: 'gif',
+    apng: 'png',
+    webm: 'webm',
+};
+
+// Anything that can draw a frame at a given rotation without its animation loop
+export interface StillSource {
+    renderStill(rotation: Rotation, width: number, height: number, background: Vec3): Promise<ImageData>;
+}
+
+/**
+ * Renders one seamless 360° turn, frame by frame at fixed phases, and encodes it.
+ */
+export async function recordTurntable(source: StillSource, options: Partial<TurntableOptions> = {}): Promise<Blob> {
+    const { format, frames: frameCount, width, height, fps, tilt, background, onProgress } = { ...DEFAULT_TURNTABLE_OPTIONS, ...options };
+    if (frameCount < 1 || width < 1 || height < 1 || fps <= 0) {
+        throw new Error('Turntable recordings need at least one frame, a size and a positive fps');
+    }
+
+    const frames: ImageData[] = [];
+    for (let i = 0; i < frameCount; i++) {
+        // i / frameCount never reaches 1, so the last frame leads straight back into the first
+        frames.push(await source.renderStill(turntableRotation(i / frameCount, tilt), width, height, background));
+        onProgress?.(i + 1, frameCount);
+    }
+
+    switch (format) {
+        case 'gif': return encodeGif(frames, fps);
+        case 'apng': return encodeApng(frames, fps);
+        case 'webm': return encodeWebm(frames, fps);
+    }
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,37 @@
+import type { BaseRenderer } from './base-renderer';
+import { TypeGpuRenderer } from './type-gpu-renderer';
+import { WebGl2Renderer } from './webgl-renderer';
+import { CanvasRenderer } from './canvas-renderer';
+
+export type RendererBackend = 'webgpu' | 'webgl2' | 'canvas';
+
+// In order of preference
+export const RENDERER_BACKENDS: RendererBackend[] = ['webgpu', 'webgl2', 'canvas'];
+
+const CONSTRUCTORS: Record<RendererBackend, () => BaseRenderer<unknown>> = {
+    webgpu: () => new TypeGpuRenderer(),
+    webgl2: () => new WebGl2Renderer(),
+    canvas: () => new CanvasRenderer(),
+};
+
+/**
+ * Initializes the first backend that works in this browser, starting from `preferred`
+ * when given and falling back down the list from there.
+ */
+export async function createRenderer(container: HTMLElement, preferred?: RendererBackend): Promise<BaseRenderer<unknown>> {
+    const start = preferred ? RENDERER_BACKENDS.indexOf(preferred) : 0;
+
+    for (const backend of RENDERER_BACKENDS.slice(Math.max(start, 0))) {
+        const renderer = CONSTRUCTORS[backend]();
+        try {
+            await renderer.initialize(container);
+            console.log(`Renderer: Using the ${backend} backend`);
+            return renderer;
+        } catch (error) {
+            console.warn(`Renderer: The ${backend} backend is unavailable:`, error);
+            renderer.destroy();
+        }
+    }
+
+    throw new Error('No rendering backend is available');
+}
@@ -1,6 +1,17 @@
+import type { Geometry } from './geometries/geometry';
+import type { AsciiOptions } from './ascii-tg-shader';
+
 export interface Renderer {
     initialize(container: HTMLElement): void;
     resize(width: number, height: number): void;
     render(): void;
+    // Replaces whatever is drawn with this one solid
+    setGeometry(geometry: Geometry, name?: string): void;
+    // Same, but blends from the solid on screen over `seconds`
+    morphGeometry(geometry: Geometry, name?: string, seconds?: number): void;
+    // Face image URL; resolves once the image is on screen
+    setTexture(url: string): Promise<void>;
+    setAsciiOptions(options: Partial<AsciiOptions>): void;
+    setAutoRotate(enabled: boolean): void;
     destroy(): void;
 }
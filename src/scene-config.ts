@@ -0,0 +1,229 @@
+import { COLOR_MODES, DEFAULT_ASCII_OPTIONS, type AsciiOptions } from './ascii-tg-shader';
+import { CAMERA_DISTANCE, FIELD_OF_VIEW, PROJECTIONS, type CameraConfig } from './camera';
+import { DEFAULT_LIGHTING, SHADING_MODELS, type LightingOptions } from './lighting';
+import { PALETTES } from './palettes';
+import { isShapeName } from './geometries/shapes';
+import type { Rotation } from './transforms';
+
+export const DEFAULT_FACE_TEXTURE = '/MetaMask-icon-fox-developer.jpg';
+
+/**
+ * Everything that decides how the scene looks, in plain JSON so it can live in a
+ * preset file or a link.
+ */
+export interface SceneConfig {
+    // Name from SHAPES or Conway notation
+    shape: string;
+    // Face image URL
+    texture: string;
+    // Charset, cell size and colours
+    ascii: AsciiOptions;
+    // X-then-Y angles, or an exact quaternion [x, y, z, w] as captured from the view
+    rotation: Rotation | [number, number, number, number];
+    // Multiple of the default auto-spin; 0 stops it
+    spinSpeed: number;
+    camera: CameraConfig;
+    lighting: LightingOptions;
+}
+
+// What presets and links contain: any subset, with objects merged one level deep
+export interface SceneConfigPatch {
+    shape?: string;
+    texture?: string;
+    ascii?: Partial<AsciiOptions>;
+    rotation?: SceneConfig['rotation'];
+    spinSpeed?: number;
+    camera?: Partial<CameraConfig>;
+    lighting?: Partial<LightingOptions>;
+}
+
+export const DEFAULT_SCENE_CONFIG: SceneConfig = {
+    shape: 'dodecahedron',
+    texture: DEFAULT_FACE_TEXTURE,
+    ascii: DEFAULT_ASCII_OPTIONS,
+    rotation: { x: 0, y: 0 },
+    spinSpeed: 1,
+    camera: { distance: CAMERA_DISTANCE, fieldOfView: FIELD_OF_VIEW, projection: 'perspective', pan: [0, 0] },
+    lighting: DEFAULT_LIGHTING,
+};
+
+type ConfigKey = keyof SceneConfig;
+
+const CONFIG_KEYS = Object.keys(DEFAULT_SCENE_CONFIG) as ConfigKey[];
+// Merged rather than replaced; rotation is a union, so it always replaces
+const NESTED_KEYS: ConfigKey[] = ['ascii', 'camera', 'lighting'];
+
+// Where preset files are served from: public/presets/<name>.json
+const PRESET_PATH = '/presets/';
+
+// Nested fields that default to null, with a value of the type they hold otherwise
+const NULLABLE_FIELDS: Record<string, unknown> = { cellAspect: 1, columns: 80, background: [0, 0, 0] };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isVector(value: unknown, length: number): boolean {
+    return Array.isArray(value) && value.length === length && value.every(isNumber);
+}
+
+function oneOf(values: string[]): (value: unknown) => boolean {
+    return value => typeof value === 'string' && values.includes(value);
+}
+
+function isLight(value: unknown): boolean {
+    if (!isObject(value) || !isVector(value.color, 3) || !isNumber(value.intensity)) return false;
+    return value.type === 'directional'
+        ? isVector(value.direction, 3)
+        : value.type === 'point' && isVector(value.position, 3) && isNumber(value.range);
+}
+
+// X-then-Y angles or a quaternion
+function isRotation(value: unknown): boolean {
+    return isObject(value) ? isNumber(value.x) && isNumber(value.y) : isVector(value, 4);
+}
+
+// Nested fields the type of their default doesn't pin down: enums, unions and lists
+const FIELD_CHECKS: Record<string, (value: unknown) => boolean> = {
+    'ascii.colorMode': oneOf(Object.keys(COLOR_MODES)),
+    'ascii.palette': value => typeof value === 'string'
+        ? Object.hasOwn(PALETTES, value)
+        : Array.isArray(value) && value.every(color => isVector(color, 3)),
+    'camera.projection': oneOf(PROJECTIONS),
+    'lighting.model': oneOf(SHADING_MODELS),
+    'lighting.lights': value => Array.isArray(value) && value.every(isLight),
+};
+
+// Same JSON type as `expected`; number arrays (colours, vectors) also need its length
+function matchesType(value: unknown, expected: unknown): boolean {
+    if (Array.isArray(expected)) return isVector(value, expected.length);
+    return typeof value === typeof expected && isObject(value) === isObject(expected);
+}
+
+function checkNestedFields(key: ConfigKey, value: Record<string, unknown>): void {
+    const defaults = DEFAULT_SCENE_CONFIG[key] as unknown as Record<string, unknown>;
+    for (const [field, fieldValue] of Object.entries(value)) {
+        const name = `${key}.${field}`;
+        if (!Object.hasOwn(defaults, field)) {
+            throw new Error(`Unknown scene config key "${name}"`);
+        }
+        const check = FIELD_CHECKS[name];
+        const valid = check
+            ? check(fieldValue)
+            : defaults[field] === null
+                ? fieldValue === null || matchesType(fieldValue, NULLABLE_FIELDS[field])
+                : matchesType(fieldValue, defaults[field]);
+        if (!valid) {
+            throw new Error(`Invalid value for scene config key "${name}"`);
+        }
+    }
+}
+
+export function mergeSceneConfig(base: SceneConfig, patch: SceneConfigPatch): SceneConfig {
+    const merged = { ...base } as Record<ConfigKey, unknown>;
+    for (const key of CONFIG_KEYS) {
+        const value = patch[key];
+        if (value === undefined) continue;
+        merged[key] = NESTED_KEYS.includes(key) ? { ...(base[key] as object), ...(value as object) } : value;
+    }
+    return merged as unknown as SceneConfig;
+}
+
+/**
+ * Checks the shape of a parsed preset, down to the fields of nested objects, against
+ * DEFAULT_SCENE_CONFIG. Unknown keys are errors so typos don't silently fall back to
+ * defaults.
+ */
+export function parseSceneConfig(json: unknown): SceneConfigPatch {
+    if (!isObject(json)) {
+        throw new Error('A scene config must be a JSON object');
+    }
+
+    for (const [key, value] of Object.entries(json)) {
+        if (!Object.hasOwn(DEFAULT_SCENE_CONFIG, key)) {
+            throw new Error(`Unknown scene config key "${key}"`);
+        }
+        const valid = NESTED_KEYS.includes(key as ConfigKey)
+            ? isObject(value)
+            : key === 'rotation'
+                ? isRotation(value)
+                : key === 'shape'
+                    // createGeometry throws for anything else
+                    ? typeof value === 'string' && isShapeName(value)
+                    : typeof value === typeof DEFAULT_SCENE_CONFIG[key as ConfigKey];
+        if (!valid) {
+            throw new Error(`Invalid value for scene config key "${key}"`);
+        }
+        if (NESTED_KEYS.includes(key as ConfigKey)) {
+            checkNestedFields(key as ConfigKey, value as Record<string, unknown>);
+        }
+    }
+
+    return json as SceneConfigPatch;
+}
+
+/**
+ * Encodes what differs from the defaults: strings as they are, everything else as
+ * JSON, and nested objects only with their changed fields.
+ */
+export function sceneConfigToParams(config: SceneConfig): URLSearchParams {
+    const params = new URLSearchParams();
+
+    for (const key of CONFIG_KEYS) {
+        const value = config[key];
+        const fallback = DEFAULT_SCENE_CONFIG[key];
+        if (JSON.stringify(value) === JSON.stringify(fallback)) continue;
+
+        if (typeof value === 'string') {
+            params.set(key, value);
+        } else if (NESTED_KEYS.includes(key)) {
+            const changed = Object.fromEntries(Object.entries(value as object)
+                .filter(([field, v]) => JSON.stringify(v) !== JSON.stringify((fallback as Record<string, unknown>)[field])));
+            params.set(key, JSON.stringify(changed));
+        } else {
+            params.set(key, JSON.stringify(value));
+        }
+    }
+
+    return params;
+}
+
+/**
+ * Ignores parameters that aren't config keys, so other page options can share the URL.
+ * Each key is checked on its own: a bad one is reported and skipped, and the rest of
+ * the link still applies.
+ */
+export function sceneConfigFromParams(params: URLSearchParams): SceneConfigPatch {
+    const patch: SceneConfigPatch = {};
+    for (const key of CONFIG_KEYS) {
+        const value = params.get(key);
+        if (value === null) continue;
+        try {
+            const parsed = typeof DEFAULT_SCENE_CONFIG[key] === 'string' ? value : JSON.parse(value);
+            Object.assign(patch, parseSceneConfig({ [key]: parsed }));
+        } catch (error) {
+            console.warn(`Ignoring scene config parameter "${key}":`, (error as Error).message);
+        }
+    }
+    return patch;
+}
+
+export function sceneConfigToJson(config: SceneConfig | SceneConfigPatch): string {
+    return JSON.stringify(config, null, 2) + '\n';
+}
+
+export async function loadPreset(name: string): Promise<SceneConfigPatch> {
+    if (!/^[\w-]+$/.test(name)) {
+        throw new Error(`Invalid preset name "${name}"`);
+    }
+
+    const response = await fetch(`${PRESET_PATH}${name}.json`);
+    if (!response.ok) {
+        throw new Error(`Unknown preset "${name}"`);
+    }
+    return parseSceneConfig(await response.json());
+}
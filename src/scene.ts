@@ -0,0 +1,157 @@
+import { mat4, quat } from 'gl-matrix';
+import type { Geometry } from './geometries/geometry';
+import { normalize, type Vec3 } from './geometries/vec3';
+import { orientationFromRotation, type Rotation } from './transforms';
+import { MorphGeometry, morphTarget } from './geometries/morph';
+import { EASINGS, type Easing } from './timeline';
+
+// Length of each step of a shape morph
+export const MORPH_SECONDS = 1.2;
+
+// Called every frame with seconds since the scene started, so motion is frame-rate independent
+export type NodeAnimation = (node: SceneNode, time: number) => void;
+
+export interface SceneNodeOptions {
+    name?: string;
+    geometry?: Geometry | null;
+    // Image URL for the faces; the renderer's default face image when omitted
+    texture?: string;
+    position?: Vec3;
+    rotation?: Rotation;
+    scale?: number | Vec3;
+    animation?: NodeAnimation | null;
+}
+
+/**
+ * One object in the scene. Its transform is relative to its parent, and nodes without
+ * geometry just group and move their children.
+ */
+export class SceneNode {
+    name: string;
+    geometry: Geometry | null;
+    texture: string | undefined;
+    position: Vec3;
+    rotation: quat;
+    scale: Vec3;
+    animation: NodeAnimation | null;
+
+    private parentNode: SceneNode | null = null;
+    private readonly childNodes: SceneNode[] = [];
+
+    constructor(options: SceneNodeOptions = {}) {
+        const scale = options.scale ?? 1;
+        this.name = options.name ?? '';
+        this.geometry = options.geometry ?? null;
+        this.texture = options.texture;
+        this.position = options.position ?? [0, 0, 0];
+        this.rotation = orientationFromRotation(options.rotation ?? { x: 0, y: 0 });
+        this.scale = typeof scale === 'number' ? [scale, scale, scale] : scale;
+        this.animation = options.animation ?? null;
+    }
+
+    get parent(): SceneNode | null {
+        return this.parentNode;
+    }
+
+    get children(): readonly SceneNode[] {
+        return this.childNodes;
+    }
+
+    add(...children: SceneNode[]): this {
+        for (const child of children) {
+            child.parentNode?.remove(child);
+            child.parentNode = this;
+            this.childNodes.push(child);
+        }
+        return this;
+    }
+
+    remove(child: SceneNode): void {
+        const index = this.childNodes.indexOf(child);
+        if (index === -1) return;
+        this.childNodes.splice(index, 1);
+        child.parentNode = null;
+    }
+
+    localMatrix(): mat4 {
+        return mat4.fromRotationTranslationScale(mat4.create(), this.rotation, this.position, this.scale);
+    }
+
+    worldMatrix(): mat4 {
+        const local = this.localMatrix();
+        return this.parentNode ? mat4.multiply(local, this.parentNode.worldMatrix(), local) : local;
+    }
+
+    // Depth-first, parents before children
+    traverse(visit: (node: SceneNode) => void): void {
+        visit(this);
+        this.childNodes.forEach(child => child.traverse(visit));
+    }
+}
+
+export class Scene {
+    readonly root = new SceneNode({ name: 'root' });
+
+    add(...nodes: SceneNode[]): this {
+        this.root.add(...nodes);
+        return this;
+    }
+
+    update(time: number): void {
+        this.root.traverse(node => node.animation?.(node, time));
+    }
+
+    // Nodes that draw something
+    meshes(): SceneNode[] {
+        const nodes: SceneNode[] = [];
+        this.root.traverse(node => {
+            if (node.geometry) nodes.push(node);
+        });
+        return nodes;
+    }
+
+    // "dodecahedron", or "cube and dodecahedron" for several, from the node names
+    describe(): string {
+        const names = this.meshes().map(node => node.name || 'solid');
+        return names.length <= 1
+            ? names[0] ?? 'empty scene'
+            : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+    }
+}
+
+// Replaces the node's rotation with a steady turn about `axis`
+export function spin(axis: Vec3, radiansPerSecond: number): NodeAnimation {
+    const unit = normalize(axis);
+    return (node, time) => {
+        quat.setAxisAngle(node.rotation, unit, radiansPerSecond * time);
+    };
+}
+
+// Circles the parent's origin in its XZ plane
+export function orbit(radius: number, secondsPerTurn: number, phase = 0): NodeAnimation {
+    return (node, time) => {
+        const angle = phase + (time / secondsPerTurn) * Math.PI * 2;
+        node.position = [Math.cos(angle) * radius, node.position[1], Math.sin(angle) * radius];
+    };
+}
+
+/**
+ * Blends the node's geometry through each of `geometries` in turn, one step every
+ * `secondsPerStep`, and leaves the last one in place: [cube, geodesic, dodecahedron]
+ * inflates a cube into a sphere, then facets it into a dodecahedron.
+ */
+export function morph(geometries: Geometry[], secondsPerStep = MORPH_SECONDS, easing: Easing = EASINGS.easeInOut): NodeAnimation {
+    const targets = geometries.map(morphTarget);
+    const last = geometries.length - 1;
+    const blended = new MorphGeometry(targets[0]);
+    return (node, time) => {
+        const step = time / secondsPerStep;
+        if (step >= last) {
+            node.geometry = geometries[last];
+            return;
+        }
+        const index = Math.floor(step);
+        blended.blend(targets[index], targets[index + 1], easing(step - index));
+        node.geometry = blended;
+    };
+}
@@ -0,0 +1,57 @@
+import type { Geometry } from './geometries/geometry';
+import { SHAPES } from './geometries/shapes';
+import { Scene, SceneNode, morph, orbit, spin } from './scene';
+
+const PLATONIC_SOLIDS = ['tetrahedron', 'cube', 'octahedron', 'dodecahedron', 'icosahedron'];
+
+export function createSingleScene(shape = 'dodecahedron', geometry: Geometry = SHAPES[shape]()): Scene {
+    return new Scene().add(new SceneNode({ name: shape, geometry }));
+}
+
+// A cube with a smaller dodecahedron circling it, passing in front and behind
+export function createOrbitScene(): Scene {
+    const cube = new SceneNode({ name: 'cube', geometry: SHAPES.cube(), scale: 0.55 });
+    const dodecahedron = new SceneNode({
+        name: 'dodecahedron',
+        geometry: SHAPES.dodecahedron(),
+        scale: 0.3,
+        animation: spin([0.3, 1, 0], 1.5),
+    });
+    // The pivot carries the orbit so the dodecahedron can spin about its own centre
+    const pivot = new SceneNode({ animation: orbit(1.35, 6) }).add(dodecahedron);
+
+    return new Scene().add(cube, pivot);
+}
+
+// All five Platonic solids side by side, each turning at its own pace
+export function createPlatonicRowScene(): Scene {
+    const spacing = 0.72;
+    const scene = new Scene();
+    PLATONIC_SOLIDS.forEach((shape, i) => {
+        scene.add(new SceneNode({
+            name: shape,
+            geometry: SHAPES[shape](),
+            position: [(i - (PLATONIC_SOLIDS.length - 1) / 2) * spacing, 0, 0],
+            scale: 0.22,
+            animation: spin([0.4, 1, 0.2], 0.6 + i * 0.15),
+        }));
+    });
+    return scene;
+}
+
+// A cube inflating into a sphere, then faceting into a dodecahedron
+export function createMorphScene(): Scene {
+    const stages = [SHAPES.cube(), SHAPES.geodesic(), SHAPES.dodecahedron()];
+    return new Scene().add(new SceneNode({
+        name: 'dodecahedron',
+        geometry: stages[stages.length - 1],
+        animation: morph(stages),
+    }));
+}
+
+export const SCENES: Record<string, () => Scene> = {
+    single: () => createSingleScene(),
+    orbit: createOrbitScene,
+    platonic: createPlatonicRowScene,
+    morph: createMorphScene,
+};
@@ -0,0 +1,88 @@
+import type { AsciiFrame } from './ascii-frame';
+import type { Rotation } from './transforms';
+
+// 'overlay' keeps the canvas and lays invisible, selectable text over it;
+// 'replace' hides the canvas and shows the text itself
+export type TextMode = 'off' | 'overlay' | 'replace';
+
+// Screen readers re-announce a changed label, so don't churn it every frame
+const DESCRIPTION_INTERVAL_MS = 2000;
+
+function toDegrees(radians: number): number {
+    const degrees = Math.round(radians * 180 / Math.PI) % 360;
+    return degrees < 0 ? degrees + 360 : degrees;
+}
+
+export function describeScene(shape: string, rotation: Rotation, spinning: boolean): string {
+    return `ASCII art of a ${spinning ? 'slowly rotating ' : ''}${shape}, `
+        + `tilted ${toDegrees(rotation.x)}° and turned ${toDegrees(rotation.y)}°.`;
+}
+
+/**
+ * Mirrors each frame's character grid into a `<pre>` so the art can be selected,
+ * copied and described to assistive technology.
+ */
+export class TextModeLayer {
+    private readonly container: HTMLElement;
+    private readonly canvas: HTMLCanvasElement;
+    private readonly pre: HTMLPreElement;
+    private lastDescriptionUpdate = -Infinity;
+
+    constructor(container: HTMLElement, canvas: HTMLCanvasElement, mode: Exclude<TextMode, 'off'>, cellSize: [number, number]) {
+        this.container = container;
+        this.canvas = canvas;
+
+        this.pre = document.createElement('pre');
+        this.pre.setAttribute('role', 'img');
+        this.pre.setAttribute('aria-roledescription', 'ASCII art');
+        Object.assign(this.pre.style, {
+            position: 'absolute',
+            inset: '0',
+            margin: '0',
+            overflow: 'hidden',
+            fontFamily: 'monospace',
+            whiteSpace: 'pre',
+            userSelect: 'text',
+            cursor: 'text',
+            color: mode === 'overlay' ? 'transparent' : '#e6edf3',
+        });
+        this.setCellSize(...cellSize);
+
+        this.canvas.setAttribute('aria-hidden', 'true');
+        if (mode === 'replace') {
+            this.canvas.style.visibility = 'hidden';
+        }
+        this.container.appendChild(this.pre);
+    }
+
+    // Cells are `width` x `height` CSS px, like the ASCII pass
+    setCellSize(width: number, height: number): void {
+        this.pre.style.fontSize = `${height}px`;
+        this.pre.style.lineHeight = `${height}px`;
+        this.pre.style.letterSpacing = `${width - this.measureAdvance(height)}px`;
+    }
+
+    update(frame: AsciiFrame, description: string): void {
+        this.pre.textContent = frame.lines.join('\n');
+
+        const now = performance.now();
+        if (now - this.lastDescriptionUpdate >= DESCRIPTION_INTERVAL_MS) {
+            this.pre.setAttribute('aria-label', description);
+            this.lastDescriptionUpdate = now;
+        }
+    }
+
+    destroy(): void {
+        this.pre.remove();
+        this.canvas.removeAttribute('aria-hidden');
+        this.canvas.style.visibility = '';
+    }
+
+    // Advance width of one monospace glyph, so letter-spacing can stretch it to a cell
+    private measureAdvance(fontSize: number): number {
+        const context = document.createElement('canvas').getContext('2d');
+        if (!context) return fontSize * 0.6;
+        context.font = `${fontSize}px monospace`;
+        return context.measureText('M').width;
+    }
+}
@@ -0,0 +1,123 @@
+import { lerp, type Vec3 } from './geometries/vec3';
+import type { Rotation } from './transforms';
+
+export type Easing = (t: number) => number;
+
+export const EASINGS = {
+    linear: (t: number) => t,
+    easeIn: (t: number) => t * t * t,
+    easeOut: (t: number) => 1 - (1 - t) ** 3,
+    easeInOut: (t: number) => t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2,
+    // Holds the previous value until the next keyframe
+    step: (t: number) => t < 1 ? 0 : 1,
+} satisfies Record<string, Easing>;
+
+export type EasingName = keyof typeof EASINGS;
+
+export type PlaybackMode = 'once' | 'loop' | 'ping-pong';
+
+// Everything a timeline can drive; unset properties are left to the renderer
+export interface TimelineState {
+    // Added on top of the user's and auto-spin rotation
+    rotation?: Rotation;
+    // Camera distance divisor; 2 is twice as close
+    zoom?: number;
+    // Where the first light sits; directional lights shine from here towards the origin
+    lightPosition?: Vec3;
+    fontSize?: number;
+    // Switches at keyframes rather than blending
+    charSet?: string;
+}
+
+export interface Keyframe extends TimelineState {
+    // Seconds from the start of the timeline
+    time: number;
+    // Curve from this keyframe to the next one setting the same property, as in CSS
+    easing?: EasingName | Easing;
+}
+
+type Track = keyof TimelineState;
+
+const TRACKS: Track[] = ['rotation', 'zoom', 'lightPosition', 'fontSize', 'charSet'];
+
+function interpolate<K extends Track>(track: K, from: NonNullable<TimelineState[K]>, to: NonNullable<TimelineState[K]>, t: number): TimelineState[K] {
+    if (typeof from === 'number' && typeof to === 'number') {
+        return (from + (to - from) * t) as TimelineState[K];
+    }
+    if (track === 'rotation') {
+        const a = from as Rotation;
+        const b = to as Rotation;
+        return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t } as TimelineState[K];
+    }
+    if (track === 'lightPosition') {
+        return lerp(from as Vec3, to as Vec3, t) as TimelineState[K];
+    }
+    return (t < 1 ? from : to) as TimelineState[K];
+}
+
+/**
+ * Keyframed values sampled by time in seconds, so playback looks the same at any
+ * frame rate. Each property is its own track: keyframes that leave it unset are skipped.
+ */
+export class Timeline {
+    private readonly keyframes: Keyframe[];
+    private readonly mode: PlaybackMode;
+
+    constructor(keyframes: Keyframe[], mode: PlaybackMode = 'once') {
+        if (keyframes.length === 0) {
+            throw new Error('A timeline needs at least one keyframe');
+        }
+        this.keyframes = [...keyframes].sort((a, b) => a.time - b.time);
+        this.mode = mode;
+    }
+
+    get duration(): number {
+        return this.keyframes[this.keyframes.length - 1].time;
+    }
+
+    // Only 'once' timelines ever finish
+    isFinished(time: number): boolean {
+        return this.mode === 'once' && time >= this.duration;
+    }
+
+    sample(time: number): TimelineState {
+        const local = this.localTime(time);
+        const state: TimelineState = {};
+
+        for (const track of TRACKS) {
+            const frames = this.keyframes.filter(k => k[track] !== undefined);
+            if (frames.length === 0) continue;
+
+            const next = frames.findIndex(k => k.time > local);
+            if (next === 0) {
+                state[track] = frames[0][track] as never;
+            } else if (next === -1) {
+                state[track] = frames[frames.length - 1][track] as never;
+            } else {
+                const from = frames[next - 1];
+                const to = frames[next];
+                const easing = typeof from.easing === 'function' ? from.easing : EASINGS[from.easing ?? 'linear'];
+                const t = easing((local - from.time) / (to.time - from.time));
+                state[track] = interpolate(track, from[track]!, to[track]!, t) as never;
+            }
+        }
+
+        return state;
+    }
+
+    private localTime(time: number): number {
+        const duration = this.duration;
+        if (duration <= 0) return 0;
+
+        switch (this.mode) {
+            case 'once':
+                return Math.min(Math.max(time, 0), duration);
+            case 'loop':
+                return ((time % duration) + duration) % duration;
+            case 'ping-pong': {
+                const phase = ((time % (duration * 2)) + duration * 2) % (duration * 2);
+                return phase <= duration ? phase : duration * 2 - phase;
+            }
+        }
+    }
+}
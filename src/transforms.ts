@@ -0,0 +1,65 @@
+import { mat4, quat } from 'gl-matrix';
+import { Camera } from './camera';
+
+export interface Rotation {
+    x: number;
+    y: number;
+}
+
+// Idle tumble in radians per second, independent of frame rate
+export const AUTO_SPIN_PER_SECOND: Rotation = { x: 0.06, y: 0.12 };
+
+// Rotation about X then Y, as a quaternion
+export function orientationFromRotation(rotation: Rotation): quat {
+    const orientation = quat.create();
+    quat.rotateX(orientation, orientation, rotation.x);
+    quat.rotateY(orientation, orientation, rotation.y);
+    return orientation;
+}
+
+// Nearest X-then-Y angles for an orientation; any roll about Z is dropped
+export function rotationFromOrientation(orientation: quat): Rotation {
+    const m = mat4.fromQuat(mat4.create(), orientation);
+    // gl-matrix is column-major: m[4 * column + row]
+    return {
+        x: Math.atan2(m[6], m[5]),
+        y: Math.atan2(m[8], m[0]),
+    };
+}
+
+const DEFAULT_CAMERA = new Camera();
+
+export interface FrameMatrices {
+    model: mat4;
+    view: mat4;
+    projection: mat4;
+    mvp: mat4;
+    normalMatrix: mat4;
+}
+
+/**
+ * The MVP math shared by the GPU and CPU renderers: the camera looking down -Z and the
+ * solid turned by an orientation, or by X-then-Y angles. `transform` places an object
+ * before the orientation turns it.
+ */
+export function computeFrameMatrices(orientation: Rotation | quat, aspect: number, camera: Camera = DEFAULT_CAMERA, transform?: mat4): FrameMatrices {
+    const projection = camera.projectionMatrix(aspect);
+    const view = camera.viewMatrix();
+    const model = mat4.fromQuat(mat4.create(), 'x' in orientation ? orientationFromRotation(orientation) : orientation);
+    if (transform) mat4.multiply(model, model, transform);
+
+    const mvp = mat4.multiply(mat4.create(), projection, mat4.multiply(mat4.create(), view, model));
+    const normalMatrix = mat4.create();
+    mat4.invert(normalMatrix, model);
+    mat4.transpose(normalMatrix, normalMatrix);
+
+    return { model, view, projection, mvp, normalMatrix };
+}
+
+/**
+ * Time-parameterised spin for recordings: `phase` 0..1 sweeps one full turn about Y
+ * at a fixed tilt, so phase 1 lands exactly back on phase 0.
+ */
+export function turntableRotation(phase: number, tilt: number): Rotation {
+    return { x: tilt, y: phase * Math.PI * 2 };
+}
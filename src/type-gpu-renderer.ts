@@ -1,37 +1,67 @@
-import { mat4 } from 'gl-matrix';
-import type { Renderer } from './renderer';
-import { asciiVertexShader, asciiFragmentShader, createAsciiTexture } from './ascii-tg-shader';
-import { DodecahedronGeometry } from './geometries/dodecahedron';
-// import { CubeGeometry } from './geometries/cube';
-
-export class TypeGpuRenderer implements Renderer {
-    private canvas: HTMLCanvasElement | null = null;
+import type { AsciiFrame } from './ascii-frame';
+import { MESH_UNIFORM_SIZE, SURFACE_FORMAT, meshFragmentShader, meshVertexBufferLayout, meshVertexShader } from './mesh-shader';
+import { mat4, type quat } from 'gl-matrix';
+import { computeFrameMatrices, type Rotation } from './transforms';
+import { LIGHTING_UNIFORM_SIZE, packLightingUniforms } from './lighting';
+import type { Vec3 } from './geometries/vec3';
+import type { Geometry, VertexLayout } from './geometries/geometry';
+import type { SceneNode } from './scene';
+import { BaseRenderer } from './base-renderer';
+import { encodeEffects, PingPongTargets, type PostEffect } from './effects/effect';
+import { AsciiEffect, CELL_FORMAT } from './effects/ascii';
+import { createEffect } from './effects/effects';
+import { edgeSegments } from './geometries/edges';
+import { DEFAULT_WIREFRAME_OPTIONS, LINE_UNIFORM_SIZE, LINE_VERTEX_COUNT, lineShader, lineVertexBufferLayout, packLineUniforms, type WireframeOptions } from './wireframe';
+
+interface GeometryBuffers {
+    vertexBuffer: GPUBuffer;
+    vertexCount: number;
+    indexBuffer: GPUBuffer | null;
+    indexCount: number;
+    // geometry.getVersion() the vertex buffer holds
+    version: number;
+}
+
+interface EdgeBuffer {
+    buffer: GPUBuffer;
+    edgeCount: number;
+}
+
+// Mesh pass outputs, sized to whatever the effect chain is drawing into
+interface SceneTargets {
+    color: GPUTexture;
+    surface: GPUTexture;
+    depth: GPUTexture;
+}
+
+export class TypeGpuRenderer extends BaseRenderer<GPUTexture> {
     private device: GPUDevice | null = null;
     private context: GPUCanvasContext | null = null;
+    private format: GPUTextureFormat = 'bgra8unorm';
 
     // Pipelines
-    private meshPipeline: any = null;
-    private asciiPipeline: any = null;
+    private meshPipelines = new Map<string, GPURenderPipeline>();
+    private linePipeline: GPURenderPipeline | null = null;
+
+    // Post-processing, in order; the ASCII stage is kept for text readback even when left out
+    private asciiEffect = new AsciiEffect();
+    private effects: PostEffect[] = [this.asciiEffect];
+    private effectTargets = new PingPongTargets();
+
+    private wireframe: WireframeOptions = DEFAULT_WIREFRAME_OPTIONS;
 
     // Resources
-    private renderTarget: GPUTexture | null = null;
-    private asciiTexture: GPUTexture | null = null;
+    private sceneTargets: SceneTargets | null = null;
     private sampler: GPUSampler | null = null;
-    private vertexBuffer: GPUBuffer | null = null;
-    private vertexCount: number = 0;
-    private faceTexture: GPUTexture | null = null;
+    private geometryBuffers = new Map<Geometry, GeometryBuffers>();
+    private edgeBuffers = new Map<Geometry, EdgeBuffer>();
+    // Plain white, for faces whose image is still loading
+    private whiteTexture: GPUTexture | null = null;
 
     // Uniforms
-    private meshUniformBuffer: GPUBuffer | null = null;
-    private asciiUniformBuffer: GPUBuffer | null = null;
-    private quadBuffer: GPUBuffer | null = null;
-    private depthTexture: GPUTexture | null = null;
-
-    // Interaction
-    private isDragging = false;
-    private previousMousePosition = { x: 0, y: 0 };
-    private targetRotation = { x: 0, y: 0 };
-    private currentRotation = { x: 0, y: 0 };
+    private nodeUniformBuffers = new Map<SceneNode, GPUBuffer>();
+    private lightingUniformBuffer: GPUBuffer | null = null;
+    private lineUniformBuffer: GPUBuffer | null = null;
 
     async initialize(container: HTMLElement): Promise<void> {
         console.log('Renderer: Requesting adapter...');
@@ -44,337 +74,579 @@ export class TypeGpuRenderer implements Renderer {
 
         if (!this.device) throw new Error('WebGPU not supported');
 
-        this.canvas = document.createElement('canvas');
-        this.canvas.width = container.clientWidth * window.devicePixelRatio;
-        this.canvas.height = container.clientHeight * window.devicePixelRatio;
-        this.canvas.style.width = '100%';
-        this.canvas.style.height = '100%';
-        container.appendChild(this.canvas);
-
-        this.context = this.canvas.getContext('webgpu') as GPUCanvasContext;
+        const canvas = document.createElement('canvas');
+        this.format = navigator.gpu.getPreferredCanvasFormat();
+        this.context = canvas.getContext('webgpu') as GPUCanvasContext;
         this.context.configure({
             device: this.device,
-            format: navigator.gpu.getPreferredCanvasFormat(),
+            format: this.format,
             alphaMode: 'premultiplied',
         });
 
-        this.setupGeometryResources();
-        this.setupAsciiResources();
-        this.setupInteraction(container);
+        this.attachCanvas(container, canvas);
+        this.setupMeshResources();
+        this.asciiEffect.setOptions(this.asciiOptions);
 
         console.log('Renderer: Loading face texture...');
-        await this.loadFaceTexture('/MetaMask-icon-fox-developer.jpg')
-        // await this.loadFaceTexture('/mona.jpg')
+        await this.preloadFaceTexture();
 
         // Initial resize to setup the render target and viewport
         this.resize(container.clientWidth, container.clientHeight);
     }
 
-    private async setupGeometryResources(): Promise<void> {
+    private setupMeshResources(): void {
         if (!this.device) return;
 
-        const geometry = new DodecahedronGeometry();
-        // const geometry = new CubeGeometry();
-
-        const vertices = geometry.getVertices();
-        this.vertexCount = geometry.getVertexCount();
+        this.sampler = this.device.createSampler({
+            minFilter: 'linear',
+            magFilter: 'linear',
+        });
 
-        this.vertexBuffer = this.device.createBuffer({
-            size: vertices.byteLength,
-            usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST,
-            mappedAtCreation: true,
+        this.lightingUniformBuffer = this.device.createBuffer({
+            size: LIGHTING_UNIFORM_SIZE,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
         });
-        new Float32Array(this.vertexBuffer.getMappedRange()).set(vertices);
-        this.vertexBuffer.unmap();
+        this.updateLightingUniforms();
 
-        this.meshUniformBuffer = this.device.createBuffer({
-            size: 64, // 4x4 matrix
+        this.lineUniformBuffer = this.device.createBuffer({
+            size: LINE_UNIFORM_SIZE,
             usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
         });
 
+        this.whiteTexture = this.device.createTexture({
+            size: [1, 1, 1],
+            format: 'rgba8unorm',
+            usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST,
+        });
+        this.device.queue.writeTexture({ texture: this.whiteTexture }, new Uint8Array([255, 255, 255, 255]), {}, [1, 1]);
+    }
+
+    // One pipeline per vertex layout, since the layout is baked into the vertex shader.
+    // Depth-only pipelines lay down faces that hide edges without being drawn themselves.
+    private meshPipelineFor(layout: VertexLayout, depthOnly = false): GPURenderPipeline {
+        const key = JSON.stringify(layout) + (depthOnly ? ':depth' : '');
+        let pipeline = this.meshPipelines.get(key);
+        if (pipeline) return pipeline;
+
+        const device = this.device!;
         // Simple mesh pipeline (would normally use TypeGPU layouts)
         // For brevity, using standard WebGPU calls where TypeGPU abstractions are not strictly needed
-        this.meshPipeline = this.device.createRenderPipeline({
+        pipeline = device.createRenderPipeline({
             layout: 'auto',
             vertex: {
-                module: this.device.createShaderModule({
-                    code: `
-                        @group(0) @binding(0) var<uniform> mvp: mat4x4f;
-                        struct VertexOutput {
-                            @builtin(position) pos: vec4f,
-                            @location(0) uv: vec2f,
-                        }
-                        @vertex
-                        fn main(@location(0) pos: vec3f, @location(1) uv: vec2f) -> VertexOutput {
-                            return VertexOutput(mvp * vec4f(pos, 1.0), uv);
-                        }
-                    `
-                }),
+                module: device.createShaderModule({ code: meshVertexShader(layout) }),
                 entryPoint: 'main',
-                buffers: [{
-                    arrayStride: 20,
-                    attributes: [
-                        { format: 'float32x3', offset: 0, shaderLocation: 0 },
-                        { format: 'float32x2', offset: 12, shaderLocation: 1 },
-                    ]
-                }]
+                buffers: [meshVertexBufferLayout(layout)]
             },
             fragment: {
-                module: this.device.createShaderModule({
-                    code: `
-                        @group(0) @binding(1) var t: texture_2d<f32>;
-                        @group(0) @binding(2) var s: sampler;
-                        @fragment
-                        fn main(@location(0) uv: vec2f) -> @location(0) vec4f {
-                            return textureSample(t, s, uv);
-                        }
-                    `
-                }),
+                module: device.createShaderModule({ code: meshFragmentShader }),
                 entryPoint: 'main',
-                targets: [{ format: 'rgba8unorm' }]
+                targets: [
+                    { format: 'rgba8unorm', writeMask: depthOnly ? 0 : GPUColorWrite.ALL },
+                    { format: SURFACE_FORMAT, writeMask: depthOnly ? 0 : GPUColorWrite.ALL },
+                ]
             },
             primitive: { topology: 'triangle-list', cullMode: 'back' },
             depthStencil: { depthWriteEnabled: true, depthCompare: 'less', format: 'depth24plus' }
         });
+        this.meshPipelines.set(key, pipeline);
+        return pipeline;
     }
 
-    private setupAsciiResources(): void {
-        if (!this.device || !this.canvas) return;
-
-        this.sampler = this.device.createSampler({
-            minFilter: 'linear',
-            magFilter: 'linear',
-        });
-
-        this.asciiTexture = createAsciiTexture(this.device);
+    private linePipelineFor(): GPURenderPipeline {
+        if (this.linePipeline) return this.linePipeline;
 
-        this.asciiUniformBuffer = this.device.createBuffer({
-            size: 80, // size of AsciiParams
-            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
-        });
-
-        this.asciiPipeline = this.device.createRenderPipeline({
+        const device = this.device!;
+        const module = device.createShaderModule({ code: lineShader });
+        this.linePipeline = device.createRenderPipeline({
             layout: 'auto',
-            vertex: {
-                module: this.device.createShaderModule({ code: asciiVertexShader }),
-                entryPoint: 'main',
-                buffers: [{
-                    arrayStride: 8,
-                    attributes: [{ format: 'float32x2', offset: 0, shaderLocation: 0 }]
-                }]
-            },
+            vertex: { module, entryPoint: 'vertexMain', buffers: [lineVertexBufferLayout] },
             fragment: {
-                module: this.device.createShaderModule({ code: asciiFragmentShader }),
-                entryPoint: 'main',
-                targets: [{ format: navigator.gpu.getPreferredCanvasFormat() }]
+                module,
+                entryPoint: 'fragmentMain',
+                targets: [{ format: 'rgba8unorm' }, { format: SURFACE_FORMAT }]
             },
-            primitive: { topology: 'triangle-strip' }
+            primitive: { topology: 'triangle-list' },
+            depthStencil: { depthWriteEnabled: true, depthCompare: 'less', format: 'depth24plus' }
         });
+        return this.linePipeline;
+    }
 
-        // Fullscreen quad buffer
-        this.quadBuffer = this.device.createBuffer({
-            size: 4 * 2 * 4,
+    private geometryBuffersFor(geometry: Geometry): GeometryBuffers {
+        let buffers = this.geometryBuffers.get(geometry);
+        if (buffers) {
+            // Geometry animated in place, like a running morph, keeps its buffer
+            const version = geometry.getVersion?.() ?? 0;
+            if (buffers.version !== version) {
+                this.device!.queue.writeBuffer(buffers.vertexBuffer, 0, geometry.getVertices() as Float32Array<ArrayBuffer>);
+                buffers.version = version;
+            }
+            return buffers;
+        }
+
+        const device = this.device!;
+        const vertices = geometry.getVertices();
+        const indices = geometry.getIndices();
+
+        const vertexBuffer = device.createBuffer({
+            size: vertices.byteLength,
             usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST,
             mappedAtCreation: true,
         });
-        new Float32Array(this.quadBuffer.getMappedRange()).set([
-            -1, -1, 1, -1, -1, 1, 1, 1
-        ]);
-        this.quadBuffer.unmap();
+        new Float32Array(vertexBuffer.getMappedRange()).set(vertices);
+        vertexBuffer.unmap();
+
+        let indexBuffer: GPUBuffer | null = null;
+        if (indices) {
+            indexBuffer = device.createBuffer({
+                size: indices.byteLength,
+                usage: GPUBufferUsage.INDEX | GPUBufferUsage.COPY_DST,
+                mappedAtCreation: true,
+            });
+            new Uint32Array(indexBuffer.getMappedRange()).set(indices);
+            indexBuffer.unmap();
+        }
 
-        this.updateAsciiUniforms();
+        buffers = {
+            vertexBuffer,
+            vertexCount: geometry.getVertexCount(),
+            indexBuffer,
+            indexCount: indices?.length ?? 0,
+            version: geometry.getVersion?.() ?? 0,
+        };
+        this.geometryBuffers.set(geometry, buffers);
+        return buffers;
     }
 
-    private async loadFaceTexture(url: string): Promise<void> {
-        if (!this.device) return;
+    private edgeBufferFor(geometry: Geometry): EdgeBuffer {
+        let edges = this.edgeBuffers.get(geometry);
+        if (edges) return edges;
 
-        const image = await new Promise<HTMLImageElement>((resolve, reject) => {
-            const img = new Image();
-            img.onload = () => resolve(img);
-            img.onerror = () => reject(new Error(`Failed to load image: ${url}`));
-            img.src = url;
+        const segments = edgeSegments(geometry);
+        const buffer = this.device!.createBuffer({
+            // Zero-sized buffers can't be mapped, and meshes without creases have no edges
+            size: Math.max(segments.byteLength, 4),
+            usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST,
+            mappedAtCreation: true,
         });
+        new Float32Array(buffer.getMappedRange(), 0, segments.length).set(segments);
+        buffer.unmap();
 
-        const bitmap = await createImageBitmap(image, {
-            resizeWidth: 512,
-            resizeHeight: 512,
-            resizeQuality: 'high',
-        });
+        edges = { buffer, edgeCount: segments.length / 6 };
+        this.edgeBuffers.set(geometry, edges);
+        return edges;
+    }
+
+    private nodeUniformBufferFor(node: SceneNode): GPUBuffer {
+        let buffer = this.nodeUniformBuffers.get(node);
+        if (!buffer) {
+            buffer = this.device!.createBuffer({
+                size: MESH_UNIFORM_SIZE,
+                usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+            });
+            this.nodeUniformBuffers.set(node, buffer);
+        }
+        return buffer;
+    }
+
+    protected fallbackTexture(): GPUTexture {
+        return this.whiteTexture!;
+    }
+
+    // Frees GPU resources of nodes and geometries no longer in the scene
+    private releaseUnusedResources(nodes: SceneNode[]): void {
+        const liveNodes = new Set(nodes);
+        const liveGeometries = new Set(nodes.map(node => node.geometry));
+
+        for (const [node, buffer] of this.nodeUniformBuffers) {
+            if (liveNodes.has(node)) continue;
+            buffer.destroy();
+            this.nodeUniformBuffers.delete(node);
+        }
+        for (const [geometry, buffers] of this.geometryBuffers) {
+            if (liveGeometries.has(geometry)) continue;
+            buffers.vertexBuffer.destroy();
+            buffers.indexBuffer?.destroy();
+            this.geometryBuffers.delete(geometry);
+        }
+        for (const [geometry, edges] of this.edgeBuffers) {
+            if (liveGeometries.has(geometry)) continue;
+            edges.buffer.destroy();
+            this.edgeBuffers.delete(geometry);
+        }
+    }
 
-        this.faceTexture = this.device.createTexture({
+    protected createTexture(bitmap: ImageBitmap): GPUTexture {
+        const device = this.device!;
+        const texture = device.createTexture({
             size: [bitmap.width, bitmap.height, 1],
             format: 'rgba8unorm',
             usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST | GPUTextureUsage.RENDER_ATTACHMENT,
         });
 
-        this.device.queue.copyExternalImageToTexture(
+        device.queue.copyExternalImageToTexture(
             { source: bitmap },
-            { texture: this.faceTexture },
+            { texture },
             [bitmap.width, bitmap.height]
         );
+        return texture;
     }
 
-    private updateAsciiUniforms(): void {
-        if (!this.device || !this.canvas || !this.asciiUniformBuffer) return;
-
-        const data = new Float32Array([
-            9.0, // uCharCount (based on CHAR_SET.length)
-            6.0 * window.devicePixelRatio, // uFontSize
-            this.canvas.width, this.canvas.height, // uResolution
-            1.0, 1, 1.0// uColor (white)
-        ]);
-        this.device.queue.writeBuffer(this.asciiUniformBuffer, 0, data);
+    protected applyAsciiOptions(): void {
+        this.asciiEffect.setOptions(this.asciiOptions);
     }
 
-    private setupInteraction(container: HTMLElement): void {
-        container.addEventListener('mousedown', (e) => {
-            this.isDragging = true;
-            this.previousMousePosition = { x: e.clientX, y: e.clientY };
-            container.style.cursor = 'grabbing';
+    /**
+     * Replaces the post-processing chain, drawn first to last over the shaded scene.
+     * Names come from EFFECTS, plus 'ascii' for the glyph pass; effects built by the
+     * caller are used as they are.
+     */
+    setEffects(effects: (string | PostEffect)[]): void {
+        if (effects.length === 0) throw new Error('The effect chain needs at least one effect');
+
+        const chain = effects.map(effect => {
+            if (typeof effect !== 'string') return effect;
+            return effect === 'ascii' ? this.asciiEffect : createEffect(effect);
         });
+        for (const effect of this.effects) {
+            if (effect !== this.asciiEffect && !chain.includes(effect)) effect.destroy();
+        }
+        this.effects = chain;
+    }
 
-        container.addEventListener('mousemove', (e) => {
-            if (this.isDragging) {
-                const deltaMove = {
-                    x: e.clientX - this.previousMousePosition.x,
-                    y: e.clientY - this.previousMousePosition.y
-                };
-                this.targetRotation.x += deltaMove.y * 0.01;
-                this.targetRotation.y += deltaMove.x * 0.01;
-                this.previousMousePosition = { x: e.clientX, y: e.clientY };
-            }
-        });
+    getEffects(): PostEffect[] {
+        return [...this.effects];
+    }
 
-        window.addEventListener('mouseup', () => {
-            this.isDragging = false;
-            container.style.cursor = 'grab';
-        });
+    /**
+     * Switches between shaded faces and the solids' polygon edges; see WireframeMode.
+     * Edges go through the effect chain like the faces do, so they come out as glyphs.
+     */
+    setWireframe(options: Partial<WireframeOptions>): void {
+        this.wireframe = { ...this.wireframe, ...options };
+    }
 
-        window.addEventListener('keydown', (e) => {
-            const SPEED = 0.1;
-            if (e.key === 'ArrowUp') this.targetRotation.x -= SPEED;
-            if (e.key === 'ArrowDown') this.targetRotation.x += SPEED;
-            if (e.key === 'ArrowLeft') this.targetRotation.y -= SPEED;
-            if (e.key === 'ArrowRight') this.targetRotation.y += SPEED;
-        });
+    getWireframe(): WireframeOptions {
+        return { ...this.wireframe };
+    }
+
+    private updateLightingUniforms(): void {
+        if (!this.device || !this.lightingUniformBuffer) return;
+
+        const data = packLightingUniforms(this.lighting, this.camera.position());
+        this.device.queue.writeBuffer(this.lightingUniformBuffer, 0, data);
     }
 
-    resize(width: number, height: number): void {
+    protected resizeTargets(): void {
         if (!this.canvas || !this.device) return;
-        this.canvas.width = width * window.devicePixelRatio;
-        this.canvas.height = height * window.devicePixelRatio;
 
-        // Recreation of renderTarget
-        this.renderTarget?.destroy();
-        this.renderTarget = this.device.createTexture({
-            size: [this.canvas.width, this.canvas.height, 1],
-            format: 'rgba8unorm',
-            usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
-        });
+        this.destroySceneTargets();
+        this.sceneTargets = this.createSceneTargets(this.canvas.width, this.canvas.height);
+    }
 
-        // Recreation of depthTexture
-        this.depthTexture?.destroy();
-        this.depthTexture = this.device.createTexture({
-            size: [this.canvas.width, this.canvas.height],
-            format: 'depth24plus',
-            usage: GPUTextureUsage.RENDER_ATTACHMENT,
-        });
+    private createSceneTargets(width: number, height: number): SceneTargets {
+        const device = this.device!;
+        return {
+            color: device.createTexture({
+                size: [width, height, 1],
+                format: 'rgba8unorm',
+                usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
+            }),
+            surface: device.createTexture({
+                size: [width, height, 1],
+                format: SURFACE_FORMAT,
+                usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
+            }),
+            depth: device.createTexture({
+                size: [width, height],
+                format: 'depth24plus',
+                usage: GPUTextureUsage.RENDER_ATTACHMENT,
+            }),
+        };
+    }
 
-        this.updateAsciiUniforms();
+    private destroySceneTargets(targets = this.sceneTargets): void {
+        targets?.color.destroy();
+        targets?.surface.destroy();
+        targets?.depth.destroy();
     }
 
-    render(): void {
-        if (!this.device || !this.context || !this.canvas || !this.meshPipeline || !this.faceTexture || !this.sampler || !this.asciiPipeline || !this.renderTarget || !this.asciiTexture) return;
+    protected drawFrame(rotation: quat): boolean {
+        if (!this.device || !this.context || !this.sceneTargets) return false;
 
-        // Smooth rotation
-        this.currentRotation.x += (this.targetRotation.x - this.currentRotation.x) * 0.1;
-        this.currentRotation.y += (this.targetRotation.y - this.currentRotation.y) * 0.1;
+        const commandEncoder = this.device.createCommandEncoder();
+        const output = this.context.getCurrentTexture().createView();
+        if (!this.encodeFrame(commandEncoder, rotation, this.sceneTargets, output, window.devicePixelRatio, this.effectTargets)) return false;
 
-        if (!this.isDragging) {
-            this.targetRotation.y += 0.002;
-            this.targetRotation.x += 0.001;
-        }
+        this.device.queue.submit([commandEncoder.finish()]);
+        return true;
+    }
 
-        // MVP Matrix
-        const projection = mat4.perspective(mat4.create(), Math.PI / 4, this.canvas.width / this.canvas.height, 0.1, 100);
-        const view = mat4.lookAt(mat4.create(), [0, 0, 4.5], [0, 0, 0], [0, 1, 0]);
-        const model = mat4.create();
-        mat4.rotateX(model, model, this.currentRotation.x);
-        mat4.rotateY(model, model, this.currentRotation.y);
+    async renderStill(rotation: Rotation | quat, width: number, height: number, background: Vec3): Promise<ImageData> {
+        if (!this.device || !this.canvas || !this.sceneTargets) {
+            throw new Error('Renderer is not initialized');
+        }
 
-        const mvp = mat4.multiply(mat4.create(), projection, mat4.multiply(mat4.create(), view, model));
-        this.device.queue.writeBuffer(this.meshUniformBuffer!, 0, (mvp as unknown as Float32Array).buffer as ArrayBuffer);
+        const format = this.format;
+        const bytesPerRow = Math.ceil(width * 4 / 256) * 256;
+        const targets = this.createSceneTargets(width, height);
+        const effectTargets = new PingPongTargets();
+        const output = this.device.createTexture({
+            size: [width, height, 1],
+            format,
+            usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.COPY_SRC,
+        });
+        const readBuffer = this.device.createBuffer({
+            size: bytesPerRow * height,
+            usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
+        });
 
+        // Other resolutions keep the canvas's cells-per-pixel ratio, so stills look the same.
+        // Effects write their uniforms as they're encoded, and writes are queued in order,
+        // so the live frames are untouched.
+        const pixelRatio = window.devicePixelRatio * width / this.canvas.width;
         const commandEncoder = this.device.createCommandEncoder();
+        const encoded = this.encodeFrame(commandEncoder, rotation, targets, output.createView(), pixelRatio, effectTargets);
+        commandEncoder.copyTextureToBuffer(
+            { texture: output },
+            { buffer: readBuffer, bytesPerRow },
+            [width, height]
+        );
+        if (encoded) this.device.queue.submit([commandEncoder.finish()]);
+
+        if (!encoded) {
+            readBuffer.destroy();
+            output.destroy();
+            effectTargets.destroy();
+            this.destroySceneTargets(targets);
+            throw new Error('Renderer is not ready to draw');
+        }
+
+        await readBuffer.mapAsync(GPUMapMode.READ);
+        const data = new Uint8Array(readBuffer.getMappedRange());
+        const pixels = new Uint8ClampedArray(width * height * 4);
+        const [red, blue] = format === 'bgra8unorm' ? [2, 0] : [0, 2];
+        const bg = background.map(c => c * 255);
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const src = y * bytesPerRow + x * 4;
+                const dst = (y * width + x) * 4;
+                // Output is premultiplied, so compositing is just colour + bg * (1 - alpha)
+                const transparency = 1 - data[src + 3] / 255;
+                pixels[dst] = data[src + red] + bg[0] * transparency;
+                pixels[dst + 1] = data[src + 1] + bg[1] * transparency;
+                pixels[dst + 2] = data[src + blue] + bg[2] * transparency;
+                pixels[dst + 3] = 255;
+            }
+        }
+
+        readBuffer.unmap();
+        readBuffer.destroy();
+        output.destroy();
+        effectTargets.destroy();
+        this.destroySceneTargets(targets);
+
+        return new ImageData(pixels, width, height);
+    }
+
+    // Records the mesh pass and the effect chain for one frame; false if resources are still loading
+    private encodeFrame(commandEncoder: GPUCommandEncoder, rotation: Rotation | quat, targets: SceneTargets, output: GPUTextureView, pixelRatio: number, effectTargets: PingPongTargets): boolean {
+        if (!this.device || !this.sampler) return false;
 
-        // Pass 1: Render Mesh to renderTarget
+        // Zoom and pan move the specular highlight with the camera
+        this.updateLightingUniforms();
+
+        // Pass 1: Render Mesh to the scene targets
         const meshPass = commandEncoder.beginRenderPass({
             colorAttachments: [{
-                view: this.renderTarget.createView(),
+                view: targets.color.createView(),
+                clearValue: { r: 0, g: 0, b: 0, a: 0 },
+                loadOp: 'clear',
+                storeOp: 'store',
+            }, {
+                view: targets.surface.createView(),
                 clearValue: { r: 0, g: 0, b: 0, a: 0 },
                 loadOp: 'clear',
                 storeOp: 'store',
             }],
             depthStencilAttachment: {
-                view: this.depthTexture!.createView(),
+                view: targets.depth.createView(),
                 depthClearValue: 1.0,
                 depthLoadOp: 'clear',
                 depthStoreOp: 'store',
             }
         });
 
-        const meshBindGroup = this.device.createBindGroup({
-            layout: this.meshPipeline.getBindGroupLayout(0),
-            entries: [
-                { binding: 0, resource: { buffer: this.meshUniformBuffer! } },
-                { binding: 1, resource: this.faceTexture.createView() },
-                { binding: 2, resource: this.sampler },
-            ]
-        });
+        // Every node shares the pass, so the depth test sorts them against each other
+        const nodes = this.scene.meshes();
+        const { mode } = this.wireframe;
+        const aspect = targets.color.width / targets.color.height;
+        let viewProjection: mat4 | null = null;
+        for (const node of nodes) {
+            const geometry = node.geometry!;
+            const uniformBuffer = this.nodeUniformBufferFor(node);
+
+            // MVP Matrix: the view rotation turns the whole scene about the origin
+            const { mvp, model, normalMatrix, view, projection } = computeFrameMatrices(rotation, aspect, this.camera, node.worldMatrix());
+            const meshUniforms = new Float32Array(MESH_UNIFORM_SIZE / 4);
+            meshUniforms.set(mvp, 0);
+            meshUniforms.set(model, 16);
+            meshUniforms.set(normalMatrix, 32);
+            this.device.queue.writeBuffer(uniformBuffer, 0, meshUniforms);
+            viewProjection ??= mat4.multiply(mat4.create(), projection, view);
+
+            // Solids without edges of their own (smooth meshes, shapes mid-morph) stay shaded rather than vanish
+            const shaded = mode === 'solid' || mode === 'overlay' || this.edgeBufferFor(geometry).edgeCount === 0;
+            if (mode === 'wireframe' && !shaded) continue;
+            const pipeline = this.meshPipelineFor(geometry.getVertexLayout(), !shaded);
+            const buffers = this.geometryBuffersFor(geometry);
+
+            const meshBindGroup = this.device.createBindGroup({
+                layout: pipeline.getBindGroupLayout(0),
+                entries: [
+                    { binding: 0, resource: { buffer: uniformBuffer } },
+                    { binding: 1, resource: this.textureFor(node.texture).createView() },
+                    { binding: 2, resource: this.sampler },
+                    { binding: 3, resource: { buffer: this.lightingUniformBuffer! } },
+                ]
+            });
+
+            meshPass.setPipeline(pipeline);
+            meshPass.setBindGroup(0, meshBindGroup);
+            meshPass.setVertexBuffer(0, buffers.vertexBuffer);
+            if (buffers.indexBuffer) {
+                meshPass.setIndexBuffer(buffers.indexBuffer, 'uint32');
+                meshPass.drawIndexed(buffers.indexCount);
+            } else {
+                meshPass.draw(buffers.vertexCount);
+            }
+        }
 
-        meshPass.setPipeline(this.meshPipeline);
-        meshPass.setBindGroup(0, meshBindGroup);
-        meshPass.setVertexBuffer(0, this.vertexBuffer!);
-        meshPass.draw(this.vertexCount);
+        // Edges after every face, so the faces' depth decides which edges are hidden
+        if (mode !== 'solid' && viewProjection) {
+            this.encodeEdges(meshPass, nodes, viewProjection, targets.color.width, targets.color.height, pixelRatio);
+        }
         meshPass.end();
+        this.releaseUnusedResources(nodes);
 
-        // Pass 2: ASCII Post-processing to Screen
-        const asciiPass = commandEncoder.beginRenderPass({
-            colorAttachments: [{
-                view: this.context.getCurrentTexture().createView(),
-                clearValue: { r: 0, g: 0, b: 0, a: 1 },
-                loadOp: 'clear',
-                storeOp: 'store',
-            }]
-        });
+        // Pass 2 onwards: the effect chain to the output
+        encodeEffects(this.effects, {
+            device: this.device,
+            encoder: commandEncoder,
+            input: targets.color,
+            surface: targets.surface,
+            output,
+            format: this.format,
+            width: targets.color.width,
+            height: targets.color.height,
+            pixelRatio,
+        }, effectTargets);
+
+        return true;
+    }
 
-        const asciiBindGroup = this.device.createBindGroup({
-            layout: this.asciiPipeline.getBindGroupLayout(0),
-            entries: [
-                { binding: 0, resource: this.renderTarget.createView() },
-                { binding: 1, resource: this.asciiTexture.createView() },
-                { binding: 2, resource: this.sampler },
-                { binding: 3, resource: { buffer: this.asciiUniformBuffer! } },
-            ]
+    private encodeEdges(meshPass: GPURenderPassEncoder, nodes: SceneNode[], viewProjection: mat4, width: number, height: number, pixelRatio: number): void {
+        const device = this.device!;
+        const pipeline = this.linePipelineFor();
+
+        const [cellWidth, cellHeight] = this.asciiEffect.cellSize(device, width, pixelRatio);
+        const lineWidth = Math.max(this.wireframe.lineWidth * Math.max(cellWidth, cellHeight), 1);
+        device.queue.writeBuffer(this.lineUniformBuffer!, 0, packLineUniforms(this.wireframe, viewProjection, this.camera.position(), width, height, lineWidth));
+
+        meshPass.setPipeline(pipeline);
+        for (const node of nodes) {
+            const edges = this.edgeBufferFor(node.geometry!);
+            if (edges.edgeCount === 0) continue;
+
+            meshPass.setBindGroup(0, device.createBindGroup({
+                layout: pipeline.getBindGroupLayout(0),
+                entries: [
+                    { binding: 0, resource: { buffer: this.nodeUniformBufferFor(node) } },
+                    { binding: 1, resource: { buffer: this.lineUniformBuffer! } },
+                ]
+            }));
+            meshPass.setVertexBuffer(0, edges.buffer);
+            meshPass.draw(LINE_VERTEX_COUNT, edges.edgeCount);
+        }
+    }
+
+    /**
+     * Reads the character grid of the last rendered frame back from the GPU, using
+     * the same per-cell logic as the on-screen ASCII pass.
+     */
+    async captureFrame(): Promise<AsciiFrame> {
+        if (!this.device || !this.canvas || !this.sceneTargets) {
+            throw new Error('Renderer is not initialized');
+        }
+
+        const { columns, rows } = this.asciiEffect.gridSize(this.device, this.canvas.width, this.canvas.height, window.devicePixelRatio);
+        const bytesPerRow = Math.ceil(columns * 16 / 256) * 256;
+
+        const cellTarget = this.device.createTexture({
+            size: [columns, rows, 1],
+            format: CELL_FORMAT,
+            usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.COPY_SRC,
+        });
+        const readBuffer = this.device.createBuffer({
+            size: bytesPerRow * rows,
+            usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
         });
 
-        asciiPass.setPipeline(this.asciiPipeline);
-        asciiPass.setBindGroup(0, asciiBindGroup);
-        asciiPass.setVertexBuffer(0, this.quadBuffer!);
-        asciiPass.draw(4);
-        asciiPass.end();
+        const commandEncoder = this.device.createCommandEncoder();
+        this.asciiEffect.encodeCells({
+            device: this.device,
+            encoder: commandEncoder,
+            input: this.sceneTargets.color,
+            surface: this.sceneTargets.surface,
+            output: cellTarget.createView(),
+            format: CELL_FORMAT,
+            width: this.canvas.width,
+            height: this.canvas.height,
+            pixelRatio: window.devicePixelRatio,
+        });
 
+        commandEncoder.copyTextureToBuffer(
+            { texture: cellTarget },
+            { buffer: readBuffer, bytesPerRow },
+            [columns, rows]
+        );
         this.device.queue.submit([commandEncoder.finish()]);
+
+        await readBuffer.mapAsync(GPUMapMode.READ);
+        const data = new Float32Array(readBuffer.getMappedRange().slice(0));
+        readBuffer.unmap();
+        readBuffer.destroy();
+        cellTarget.destroy();
+
+        const glyphs = this.asciiEffect.glyphs;
+        const lines: string[] = [];
+        const colors = new Float32Array(columns * rows * 3);
+
+        for (let row = 0; row < rows; row++) {
+            let line = '';
+            for (let col = 0; col < columns; col++) {
+                const texel = (row * bytesPerRow) / 4 + col * 4;
+                const index = Math.round(data[texel + 3]);
+                line += index >= 0 ? glyphs[index] ?? ' ' : ' ';
+                colors.set(data.subarray(texel, texel + 3), (row * columns + col) * 3);
+            }
+            lines.push(line);
+        }
+
+        return { columns, rows, lines, colors };
     }
 
     destroy(): void {
-        this.renderTarget?.destroy();
-        this.depthTexture?.destroy();
-        this.faceTexture?.destroy();
-        this.asciiTexture?.destroy();
-        this.vertexBuffer?.destroy();
-        this.meshUniformBuffer?.destroy();
-        this.asciiUniformBuffer?.destroy();
-        this.quadBuffer?.destroy();
+        super.destroy();
+        this.destroySceneTargets();
+        this.releaseUnusedResources([]);
+        this.textures.forEach(texture => texture.destroy());
+        this.whiteTexture?.destroy();
+        this.lightingUniformBuffer?.destroy();
+        this.lineUniformBuffer?.destroy();
+        this.effectTargets.destroy();
+        this.asciiEffect.destroy();
+        this.effects.forEach(effect => effect.destroy());
     }
 }
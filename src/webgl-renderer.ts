@@ -0,0 +1,515 @@
+import type { quat } from 'gl-matrix';
+import type { AsciiFrame } from './ascii-frame';
+import { cellSizeFor, drawGlyphAtlas, gridSizeFor, packAsciiUniforms, packPaletteUniforms, ASCII_UNIFORM_SIZE, ATLAS_OPTIONS, EDGE_CHARS, PALETTE_UNIFORM_SIZE, type AsciiOptions, type GlyphAtlasImage } from './ascii-tg-shader';
+import { resolvePalette } from './palettes';
+import { MESH_UNIFORM_SIZE } from './mesh-shader';
+import { computeFrameMatrices, type Rotation } from './transforms';
+import { LIGHTING_UNIFORM_SIZE, packLightingUniforms } from './lighting';
+import type { Vec3 } from './geometries/vec3';
+import type { Geometry, VertexLayout } from './geometries/geometry';
+import { BaseRenderer } from './base-renderer';
+import {
+    MESH_ATTRIBUTE_LOCATIONS,
+    UNIFORM_BINDINGS,
+    asciiCellShaderGlsl,
+    asciiFragmentShaderGlsl,
+    asciiVertexShaderGlsl,
+    meshFragmentShaderGlsl,
+    meshVertexShaderGlsl,
+} from './webgl-shaders';
+
+const ATTRIBUTE_SIZES: Record<string, number> = {
+    float32x2: 2,
+    float32x3: 3,
+};
+
+interface GeometryBuffers {
+    vertexArray: WebGLVertexArrayObject;
+    vertexBuffer: WebGLBuffer;
+    vertexCount: number;
+    indexBuffer: WebGLBuffer | null;
+    indexCount: number;
+    // geometry.getVersion() the vertex buffer holds
+    version: number;
+}
+
+// Mesh pass outputs, sized to whatever the ASCII pass is drawing into
+interface SceneTargets {
+    width: number;
+    height: number;
+    framebuffer: WebGLFramebuffer;
+    color: WebGLTexture;
+    surface: WebGLTexture;
+    depth: WebGLRenderbuffer;
+}
+
+/**
+ * The same two passes as TypeGpuRenderer on WebGL2, for browsers without WebGPU. Needs
+ * EXT_color_buffer_float for the float surface and cell readback targets.
+ */
+export class WebGl2Renderer extends BaseRenderer<WebGLTexture> {
+    private gl: WebGL2RenderingContext | null = null;
+
+    // Programs
+    private meshPrograms = new Map<string, WebGLProgram>();
+    private asciiProgram: WebGLProgram | null = null;
+    private cellProgram: WebGLProgram | null = null;
+
+    // Resources
+    private sceneTargets: SceneTargets | null = null;
+    private glyphAtlas: (Omit<GlyphAtlasImage, 'canvas'> & { texture: WebGLTexture }) | null = null;
+    private geometryBuffers = new Map<Geometry, GeometryBuffers>();
+    // Plain white, for faces whose image is still loading
+    private whiteTexture: WebGLTexture | null = null;
+    private quadArray: WebGLVertexArrayObject | null = null;
+    private quadBuffer: WebGLBuffer | null = null;
+
+    // Uniforms
+    private meshUniformBuffer: WebGLBuffer | null = null;
+    private lightingUniformBuffer: WebGLBuffer | null = null;
+    private asciiUniformBuffer: WebGLBuffer | null = null;
+    private paletteUniformBuffer: WebGLBuffer | null = null;
+
+    async initialize(container: HTMLElement): Promise<void> {
+        const canvas = document.createElement('canvas');
+        const gl = canvas.getContext('webgl2', { antialias: false, depth: false, premultipliedAlpha: true });
+        if (!gl) throw new Error('WebGL2 not supported');
+        if (!gl.getExtension('EXT_color_buffer_float')) throw new Error('WebGL2 float render targets not supported');
+        this.gl = gl;
+
+        this.attachCanvas(container, canvas);
+        this.setupMeshResources();
+        this.setupAsciiResources();
+
+        await this.preloadFaceTexture();
+
+        this.resize(container.clientWidth, container.clientHeight);
+    }
+
+    private compileProgram(vertexSource: string, fragmentSource: string): WebGLProgram {
+        const gl = this.gl!;
+        const compile = (type: number, source: string) => {
+            const shader = gl.createShader(type)!;
+            gl.shaderSource(shader, source);
+            gl.compileShader(shader);
+            if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+                throw new Error(`Shader compilation failed: ${gl.getShaderInfoLog(shader)}`);
+            }
+            return shader;
+        };
+
+        const program = gl.createProgram();
+        const vertexShader = compile(gl.VERTEX_SHADER, vertexSource);
+        const fragmentShader = compile(gl.FRAGMENT_SHADER, fragmentSource);
+        gl.attachShader(program, vertexShader);
+        gl.attachShader(program, fragmentShader);
+        gl.linkProgram(program);
+        gl.deleteShader(vertexShader);
+        gl.deleteShader(fragmentShader);
+        if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+            throw new Error(`Shader linking failed: ${gl.getProgramInfoLog(program)}`);
+        }
+
+        // Fixed binding points and texture units, so buffers and textures bind once per pass
+        for (const [name, binding] of Object.entries(UNIFORM_BINDINGS)) {
+            const index = gl.getUniformBlockIndex(program, name);
+            if (index !== gl.INVALID_INDEX) gl.uniformBlockBinding(program, index, binding);
+        }
+        gl.useProgram(program);
+        ['t', 'tDiffuse', 'tFont', 'tSurface'].forEach(name => {
+            const location = gl.getUniformLocation(program, name);
+            if (location) gl.uniform1i(location, name === 'tFont' ? 1 : name === 'tSurface' ? 2 : 0);
+        });
+        return program;
+    }
+
+    private createUniformBuffer(size: number): WebGLBuffer {
+        const gl = this.gl!;
+        const buffer = gl.createBuffer();
+        gl.bindBuffer(gl.UNIFORM_BUFFER, buffer);
+        gl.bufferData(gl.UNIFORM_BUFFER, size, gl.DYNAMIC_DRAW);
+        return buffer;
+    }
+
+    private createTextureFrom(width: number, height: number, internalFormat: number, format: number, type: number, source: TexImageSource | ArrayBufferView | null): WebGLTexture {
+        const gl = this.gl!;
+        const texture = gl.createTexture();
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        if (source === null || ArrayBuffer.isView(source)) {
+            gl.texImage2D(gl.TEXTURE_2D, 0, internalFormat, width, height, 0, format, type, source);
+        } else {
+            gl.texImage2D(gl.TEXTURE_2D, 0, internalFormat, format, type, source);
+        }
+        // Linear, clamp-to-edge and no mipmaps, like the WebGPU sampler
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        return texture;
+    }
+
+    private setupMeshResources(): void {
+        const gl = this.gl!;
+        this.meshUniformBuffer = this.createUniformBuffer(MESH_UNIFORM_SIZE);
+        this.lightingUniformBuffer = this.createUniformBuffer(LIGHTING_UNIFORM_SIZE);
+        this.whiteTexture = this.createTextureFrom(1, 1, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE, new Uint8Array([255, 255, 255, 255]));
+    }
+
+    // One program per vertex layout, since the layout is baked into the vertex shader
+    private meshProgramFor(layout: VertexLayout): WebGLProgram {
+        const key = JSON.stringify(layout);
+        let program = this.meshPrograms.get(key);
+        if (!program) {
+            program = this.compileProgram(meshVertexShaderGlsl(layout), meshFragmentShaderGlsl);
+            this.meshPrograms.set(key, program);
+        }
+        return program;
+    }
+
+    private geometryBuffersFor(geometry: Geometry): GeometryBuffers {
+        const gl = this.gl!;
+        let buffers = this.geometryBuffers.get(geometry);
+        if (buffers) {
+            // Geometry animated in place, like a running morph, keeps its buffer
+            const version = geometry.getVersion?.() ?? 0;
+            if (buffers.version !== version) {
+                gl.bindBuffer(gl.ARRAY_BUFFER, buffers.vertexBuffer);
+                gl.bufferSubData(gl.ARRAY_BUFFER, 0, geometry.getVertices());
+                buffers.version = version;
+            }
+            return buffers;
+        }
+
+        const layout = geometry.getVertexLayout();
+        const indices = geometry.getIndices();
+
+        const vertexArray = gl.createVertexArray();
+        gl.bindVertexArray(vertexArray);
+
+        const vertexBuffer = gl.createBuffer();
+        gl.bindBuffer(gl.ARRAY_BUFFER, vertexBuffer);
+        gl.bufferData(gl.ARRAY_BUFFER, geometry.getVertices(), geometry.getVersion ? gl.DYNAMIC_DRAW : gl.STATIC_DRAW);
+        for (const attribute of layout.attributes) {
+            const location = MESH_ATTRIBUTE_LOCATIONS[attribute.semantic];
+            gl.enableVertexAttribArray(location);
+            gl.vertexAttribPointer(location, ATTRIBUTE_SIZES[attribute.format], gl.FLOAT, false, layout.arrayStride, attribute.offset);
+        }
+
+        let indexBuffer: WebGLBuffer | null = null;
+        if (indices) {
+            indexBuffer = gl.createBuffer();
+            gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, indexBuffer);
+            gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, indices, gl.STATIC_DRAW);
+        }
+        gl.bindVertexArray(null);
+
+        buffers = {
+            vertexArray,
+            vertexBuffer,
+            vertexCount: geometry.getVertexCount(),
+            indexBuffer,
+            indexCount: indices?.length ?? 0,
+            version: geometry.getVersion?.() ?? 0,
+        };
+        this.geometryBuffers.set(geometry, buffers);
+        return buffers;
+    }
+
+    // Frees buffers of geometries no longer in the scene
+    private releaseUnusedResources(geometries: Geometry[]): void {
+        const gl = this.gl!;
+        const live = new Set(geometries);
+        for (const [geometry, buffers] of this.geometryBuffers) {
+            if (live.has(geometry)) continue;
+            gl.deleteVertexArray(buffers.vertexArray);
+            gl.deleteBuffer(buffers.vertexBuffer);
+            gl.deleteBuffer(buffers.indexBuffer);
+            this.geometryBuffers.delete(geometry);
+        }
+    }
+
+    protected fallbackTexture(): WebGLTexture {
+        return this.whiteTexture!;
+    }
+
+    protected createTexture(bitmap: ImageBitmap): WebGLTexture {
+        const gl = this.gl!;
+        return this.createTextureFrom(bitmap.width, bitmap.height, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE, bitmap);
+    }
+
+    private setupAsciiResources(): void {
+        const gl = this.gl!;
+
+        this.asciiProgram = this.compileProgram(asciiVertexShaderGlsl, asciiFragmentShaderGlsl);
+        this.cellProgram = this.compileProgram(asciiVertexShaderGlsl, asciiCellShaderGlsl);
+        this.asciiUniformBuffer = this.createUniformBuffer(ASCII_UNIFORM_SIZE);
+        this.paletteUniformBuffer = this.createUniformBuffer(PALETTE_UNIFORM_SIZE);
+        this.createGlyphAtlas();
+
+        // Fullscreen quad
+        this.quadArray = gl.createVertexArray();
+        gl.bindVertexArray(this.quadArray);
+        this.quadBuffer = gl.createBuffer();
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
+        gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+        gl.enableVertexAttribArray(0);
+        gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 8, 0);
+        gl.bindVertexArray(null);
+
+        this.updateAsciiUniforms();
+    }
+
+    private createGlyphAtlas(): void {
+        const gl = this.gl!;
+        const { canvas, ...atlas } = drawGlyphAtlas(this.asciiOptions);
+        if (this.glyphAtlas) gl.deleteTexture(this.glyphAtlas.texture);
+        this.glyphAtlas = { ...atlas, texture: this.createTextureFrom(canvas.width, canvas.height, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE, canvas) };
+    }
+
+    // Other resolutions keep the canvas's cells-per-pixel ratio, so stills look the same
+    private updateAsciiUniforms(width = this.canvas?.width ?? 0, height = this.canvas?.height ?? 0): void {
+        const gl = this.gl;
+        if (!gl || !this.canvas || !this.glyphAtlas) return;
+
+        const cellSize = cellSizeFor(this.asciiOptions, this.glyphAtlas.cellAspect, width, window.devicePixelRatio * width / this.canvas.width);
+        gl.bindBuffer(gl.UNIFORM_BUFFER, this.asciiUniformBuffer);
+        gl.bufferSubData(gl.UNIFORM_BUFFER, 0, packAsciiUniforms(this.asciiOptions, this.glyphAtlas, cellSize, width, height));
+        gl.bindBuffer(gl.UNIFORM_BUFFER, this.paletteUniformBuffer);
+        gl.bufferSubData(gl.UNIFORM_BUFFER, 0, packPaletteUniforms(resolvePalette(this.asciiOptions.palette)));
+    }
+
+    protected applyAsciiOptions(changed: Partial<AsciiOptions>): void {
+        if (!this.gl) return;
+
+        // Only a new ramp, font or ordering needs a new atlas; the rest are uniforms
+        if (ATLAS_OPTIONS.some(key => changed[key] !== undefined)) {
+            this.createGlyphAtlas();
+        }
+        this.updateAsciiUniforms();
+    }
+
+    protected resizeTargets(): void {
+        if (!this.canvas || !this.gl) return;
+
+        this.destroySceneTargets();
+        this.sceneTargets = this.createSceneTargets(this.canvas.width, this.canvas.height);
+
+        this.updateAsciiUniforms();
+    }
+
+    private createSceneTargets(width: number, height: number): SceneTargets {
+        const gl = this.gl!;
+        const color = this.createTextureFrom(width, height, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE, null);
+        const surface = this.createTextureFrom(width, height, gl.RGBA16F, gl.RGBA, gl.HALF_FLOAT, null);
+        const depth = gl.createRenderbuffer();
+        gl.bindRenderbuffer(gl.RENDERBUFFER, depth);
+        gl.renderbufferStorage(gl.RENDERBUFFER, gl.DEPTH_COMPONENT24, width, height);
+
+        const framebuffer = gl.createFramebuffer();
+        gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+        gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, color, 0);
+        gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT1, gl.TEXTURE_2D, surface, 0);
+        gl.framebufferRenderbuffer(gl.FRAMEBUFFER, gl.DEPTH_ATTACHMENT, gl.RENDERBUFFER, depth);
+        gl.drawBuffers([gl.COLOR_ATTACHMENT0, gl.COLOR_ATTACHMENT1]);
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+        return { width, height, framebuffer, color, surface, depth };
+    }
+
+    private destroySceneTargets(targets = this.sceneTargets): void {
+        if (!targets || !this.gl) return;
+        this.gl.deleteFramebuffer(targets.framebuffer);
+        this.gl.deleteTexture(targets.color);
+        this.gl.deleteTexture(targets.surface);
+        this.gl.deleteRenderbuffer(targets.depth);
+    }
+
+    protected drawFrame(rotation: quat): boolean {
+        if (!this.gl || !this.canvas || !this.sceneTargets) return false;
+        return this.encodeFrame(rotation, this.sceneTargets, null, this.canvas.width, this.canvas.height);
+    }
+
+    // Draws both passes for one frame into `output` (null for the canvas)
+    private encodeFrame(rotation: Rotation | quat, targets: SceneTargets, output: WebGLFramebuffer | null, width: number, height: number): boolean {
+        const gl = this.gl;
+        if (!gl || !this.glyphAtlas || !this.asciiProgram) return false;
+
+        // Pass 1: Render Mesh to the scene targets
+        gl.bindFramebuffer(gl.FRAMEBUFFER, targets.framebuffer);
+        gl.viewport(0, 0, targets.width, targets.height);
+        gl.clearBufferfv(gl.COLOR, 0, [0, 0, 0, 0]);
+        gl.clearBufferfv(gl.COLOR, 1, [0, 0, 0, 0]);
+        gl.clearBufferfv(gl.DEPTH, 0, [1]);
+        gl.enable(gl.DEPTH_TEST);
+        gl.depthFunc(gl.LESS);
+        gl.enable(gl.CULL_FACE);
+        gl.cullFace(gl.BACK);
+
+        // Zoom and pan move the specular highlight with the camera
+        gl.bindBuffer(gl.UNIFORM_BUFFER, this.lightingUniformBuffer);
+        gl.bufferSubData(gl.UNIFORM_BUFFER, 0, packLightingUniforms(this.lighting, this.camera.position()));
+        gl.bindBufferBase(gl.UNIFORM_BUFFER, UNIFORM_BINDINGS.MeshUniforms, this.meshUniformBuffer);
+        gl.bindBufferBase(gl.UNIFORM_BUFFER, UNIFORM_BINDINGS.Lighting, this.lightingUniformBuffer);
+        gl.activeTexture(gl.TEXTURE0);
+
+        // Every node shares the pass, so the depth test sorts them against each other
+        const nodes = this.scene.meshes();
+        const aspect = targets.width / targets.height;
+        for (const node of nodes) {
+            const geometry = node.geometry!;
+            const buffers = this.geometryBuffersFor(geometry);
+
+            const { mvp, model, normalMatrix } = computeFrameMatrices(rotation, aspect, this.camera, node.worldMatrix());
+            const meshUniforms = new Float32Array(MESH_UNIFORM_SIZE / 4);
+            meshUniforms.set(mvp, 0);
+            meshUniforms.set(model, 16);
+            meshUniforms.set(normalMatrix, 32);
+            gl.bindBuffer(gl.UNIFORM_BUFFER, this.meshUniformBuffer);
+            gl.bufferSubData(gl.UNIFORM_BUFFER, 0, meshUniforms);
+
+            gl.useProgram(this.meshProgramFor(geometry.getVertexLayout()));
+            gl.bindTexture(gl.TEXTURE_2D, this.textureFor(node.texture));
+            gl.bindVertexArray(buffers.vertexArray);
+            if (buffers.indexBuffer) {
+                gl.drawElements(gl.TRIANGLES, buffers.indexCount, gl.UNSIGNED_INT, 0);
+            } else {
+                gl.drawArrays(gl.TRIANGLES, 0, buffers.vertexCount);
+            }
+        }
+        gl.bindVertexArray(null);
+        gl.disable(gl.DEPTH_TEST);
+        gl.disable(gl.CULL_FACE);
+        this.releaseUnusedResources(nodes.map(node => node.geometry!));
+
+        // Pass 2: ASCII Post-processing to the output
+        gl.bindFramebuffer(gl.FRAMEBUFFER, output);
+        gl.viewport(0, 0, width, height);
+        this.drawAsciiQuad(this.asciiProgram, targets);
+        return true;
+    }
+
+    private drawAsciiQuad(program: WebGLProgram, targets: SceneTargets): void {
+        const gl = this.gl!;
+        gl.useProgram(program);
+        gl.bindBufferBase(gl.UNIFORM_BUFFER, UNIFORM_BINDINGS.AsciiParams, this.asciiUniformBuffer);
+        gl.bindBufferBase(gl.UNIFORM_BUFFER, UNIFORM_BINDINGS.Palette, this.paletteUniformBuffer);
+        gl.activeTexture(gl.TEXTURE0);
+        gl.bindTexture(gl.TEXTURE_2D, targets.color);
+        gl.activeTexture(gl.TEXTURE1);
+        gl.bindTexture(gl.TEXTURE_2D, this.glyphAtlas!.texture);
+        gl.activeTexture(gl.TEXTURE2);
+        gl.bindTexture(gl.TEXTURE_2D, targets.surface);
+        gl.activeTexture(gl.TEXTURE0);
+
+        gl.bindVertexArray(this.quadArray);
+        gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+        gl.bindVertexArray(null);
+    }
+
+    // Renders into a texture-backed framebuffer and reads it back
+    private renderToPixels<T extends ArrayBufferView>(width: number, height: number, internalFormat: number, type: number, pixels: T, draw: (framebuffer: WebGLFramebuffer) => boolean): T | null {
+        const gl = this.gl!;
+        const texture = this.createTextureFrom(width, height, internalFormat, gl.RGBA, type, null);
+        const framebuffer = gl.createFramebuffer();
+        gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+        gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+
+        const drawn = draw(framebuffer);
+        if (drawn) {
+            gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+            gl.readPixels(0, 0, width, height, gl.RGBA, type, pixels);
+        }
+
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+        gl.deleteFramebuffer(framebuffer);
+        gl.deleteTexture(texture);
+        return drawn ? pixels : null;
+    }
+
+    async renderStill(rotation: Rotation | quat, width: number, height: number, background: Vec3): Promise<ImageData> {
+        const gl = this.gl;
+        if (!gl || !this.canvas || !this.sceneTargets) {
+            throw new Error('Renderer is not initialized');
+        }
+
+        const targets = this.createSceneTargets(width, height);
+        this.updateAsciiUniforms(width, height);
+        const data = this.renderToPixels(width, height, gl.RGBA8, gl.UNSIGNED_BYTE, new Uint8Array(width * height * 4),
+            output => this.encodeFrame(rotation, targets, output, width, height));
+        this.updateAsciiUniforms();
+        this.destroySceneTargets(targets);
+
+        if (!data) throw new Error('Renderer is not ready to draw');
+
+        const pixels = new Uint8ClampedArray(width * height * 4);
+        const bg = background.map(c => c * 255);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                // readPixels returns the bottom row first
+                const src = ((height - 1 - y) * width + x) * 4;
+                const dst = (y * width + x) * 4;
+                // Output is premultiplied, so compositing is just colour + bg * (1 - alpha)
+                const transparency = 1 - data[src + 3] / 255;
+                pixels[dst] = data[src] + bg[0] * transparency;
+                pixels[dst + 1] = data[src + 1] + bg[1] * transparency;
+                pixels[dst + 2] = data[src + 2] + bg[2] * transparency;
+                pixels[dst + 3] = 255;
+            }
+        }
+
+        return new ImageData(pixels, width, height);
+    }
+
+    async captureFrame(): Promise<AsciiFrame> {
+        const gl = this.gl;
+        if (!gl || !this.canvas || !this.cellProgram || !this.sceneTargets || !this.glyphAtlas) {
+            throw new Error('Renderer is not initialized');
+        }
+
+        const cellSize = cellSizeFor(this.asciiOptions, this.glyphAtlas.cellAspect, this.canvas.width, window.devicePixelRatio);
+        const { columns, rows } = gridSizeFor(cellSize, this.canvas.width, this.canvas.height);
+        const targets = this.sceneTargets;
+        const cellProgram = this.cellProgram;
+
+        const data = this.renderToPixels(columns, rows, gl.RGBA32F, gl.FLOAT, new Float32Array(columns * rows * 4), () => {
+            gl.viewport(0, 0, columns, rows);
+            this.drawAsciiQuad(cellProgram, targets);
+            return true;
+        })!;
+
+        const glyphs = [...this.glyphAtlas.chars, ...EDGE_CHARS];
+        const lines: string[] = [];
+        const colors = new Float32Array(columns * rows * 3);
+
+        for (let row = 0; row < rows; row++) {
+            let line = '';
+            for (let col = 0; col < columns; col++) {
+                const texel = (row * columns + col) * 4;
+                const index = Math.round(data[texel + 3]);
+                line += index >= 0 ? glyphs[index] ?? ' ' : ' ';
+                colors.set(data.subarray(texel, texel + 3), (row * columns + col) * 3);
+            }
+            lines.push(line);
+        }
+
+        return { columns, rows, lines, colors };
+    }
+
+    destroy(): void {
+        super.destroy();
+        const gl = this.gl;
+        if (!gl) return;
+
+        this.destroySceneTargets();
+        this.releaseUnusedResources([]);
+        this.textures.forEach(texture => gl.deleteTexture(texture));
+        gl.deleteTexture(this.whiteTexture);
+        if (this.glyphAtlas) gl.deleteTexture(this.glyphAtlas.texture);
+        this.meshPrograms.forEach(program => gl.deleteProgram(program));
+        gl.deleteProgram(this.asciiProgram);
+        gl.deleteProgram(this.cellProgram);
+        gl.deleteVertexArray(this.quadArray);
+        [this.quadBuffer, this.meshUniformBuffer, this.lightingUniformBuffer, this.asciiUniformBuffer, this.paletteUniformBuffer]
+            .forEach(buffer => gl.deleteBuffer(buffer));
+    }
+}
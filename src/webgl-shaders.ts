@@ -0,0 +1,304 @@
+import type { VertexLayout, VertexSemantic } from './geometries/geometry';
+import { MAX_LIGHTS } from './lighting';
+import { MAX_PALETTE_SIZE } from './palettes';
+
+// GLSL ES 3.00 ports of mesh-shader.ts and asciiFragmentShader. Uniform blocks use
+// std140, which lays out the same bytes as the WGSL structs, so the packing helpers
+// are shared.
+
+export const MESH_ATTRIBUTE_LOCATIONS: Record<VertexSemantic, number> = {
+    position: 0,
+    uv: 1,
+    normal: 2,
+};
+
+const GLSL_TYPES: Record<VertexSemantic, string> = {
+    position: 'vec3',
+    uv: 'vec2',
+    normal: 'vec3',
+};
+
+// Fallbacks for attributes a geometry doesn't provide
+const DEFAULTS: Record<VertexSemantic, string> = {
+    position: 'vec3(0.0)',
+    uv: 'vec2(0.0)',
+    normal: 'vec3(0.0, 0.0, 1.0)',
+};
+
+// Uniform block binding points, shared by every program
+export const UNIFORM_BINDINGS = {
+    MeshUniforms: 0,
+    Lighting: 1,
+    AsciiParams: 2,
+    Palette: 3,
+};
+
+export function meshVertexShaderGlsl(layout: VertexLayout): string {
+    const semantics = layout.attributes.map(a => a.semantic);
+    const inputs = semantics
+        .map(s => `layout(location = ${MESH_ATTRIBUTE_LOCATIONS[s]}) in ${GLSL_TYPES[s]} ${s};`)
+        .join('\n');
+    const read = (s: VertexSemantic) => semantics.includes(s) ? s : DEFAULTS[s];
+
+    return `#version 300 es
+layout(std140) uniform MeshUniforms {
+    mat4 mvp;
+    mat4 model;
+    mat4 normalMatrix;
+} mesh;
+
+${inputs}
+
+out vec2 vUv;
+out vec3 vNormal;
+out vec3 vWorldPos;
+
+void main() {
+    vec4 modelPosition = vec4(${read('position')}, 1.0);
+    gl_Position = mesh.mvp * modelPosition;
+    vUv = ${read('uv')};
+    vNormal = (mesh.normalMatrix * vec4(${read('normal')}, 0.0)).xyz;
+    vWorldPos = (mesh.model * modelPosition).xyz;
+}
+`;
+}
+
+export const meshFragmentShaderGlsl = `#version 300 es
+precision highp float;
+
+uniform sampler2D t;
+
+struct Light {
+    vec4 position; // w = 0: direction, w = 1: point position
+    vec4 color;    // rgb * intensity, a = range
+};
+
+layout(std140) uniform Lighting {
+    vec4 ambient;
+    vec4 baseColor; // a = 1 when textured
+    vec4 camera;    // w = shininess
+    vec4 params;    // x = light count, y = specular, z = 1 for Blinn-Phong
+    Light lights[${MAX_LIGHTS}];
+} lighting;
+
+in vec2 vUv;
+in vec3 vNormal;
+in vec3 vWorldPos;
+
+layout(location = 0) out vec4 outColor;
+// Normal and inverse view distance, read by the ASCII pass for edge detection
+layout(location = 1) out vec4 outSurface;
+
+void main() {
+    vec4 texel = texture(t, vUv);
+    vec4 albedo = lighting.baseColor.a > 0.5 ? texel : vec4(lighting.baseColor.rgb, 1.0);
+
+    vec3 n = normalize(vNormal);
+    vec3 v = normalize(lighting.camera.xyz - vWorldPos);
+    vec3 color = lighting.ambient.rgb * albedo.rgb;
+
+    for (int i = 0; i < ${MAX_LIGHTS}; i++) {
+        if (i >= int(lighting.params.x)) break;
+        Light light = lighting.lights[i];
+        vec3 l = normalize(-light.position.xyz);
+        float attenuation = 1.0;
+
+        if (light.position.w > 0.5) {
+            vec3 toLight = light.position.xyz - vWorldPos;
+            float dist = length(toLight);
+            l = toLight / dist;
+            if (light.color.a > 0.0) {
+                float falloff = clamp(1.0 - dist / light.color.a, 0.0, 1.0);
+                attenuation = falloff * falloff;
+            } else {
+                attenuation = 1.0 / (1.0 + dist * dist);
+            }
+        }
+
+        float diffuse = max(dot(n, l), 0.0);
+        float specular = 0.0;
+        if (lighting.params.z > 0.5 && diffuse > 0.0) {
+            vec3 h = normalize(l + v);
+            specular = pow(max(dot(n, h), 0.0), lighting.camera.w) * lighting.params.y;
+        }
+
+        color += (albedo.rgb * diffuse + vec3(specular)) * light.color.rgb * attenuation;
+    }
+
+    float distance = length(lighting.camera.xyz - vWorldPos);
+    outColor = vec4(min(color, vec3(1.0)), albedo.a);
+    outSurface = vec4(n, length(lighting.camera.xyz) / max(distance, 1e-3));
+}
+`;
+
+export const asciiVertexShaderGlsl = `#version 300 es
+layout(location = 0) in vec2 pos;
+
+out vec2 vUv;
+
+void main() {
+    gl_Position = vec4(pos, 0.0, 1.0);
+    vUv = (pos + 1.0) * 0.5;
+    vUv.y = 1.0 - vUv.y; // Flip Y for screen space
+}
+`;
+
+// Everything but the entry point, shared by the on-screen and cell readback programs
+const asciiCommonGlsl = `#version 300 es
+precision highp float;
+
+uniform sampler2D tDiffuse;
+uniform sampler2D tFont;
+uniform sampler2D tSurface;
+
+layout(std140) uniform AsciiParams {
+    vec2 uCellSize;       // output pixels
+    vec2 uResolution;
+    vec3 uColor;
+    float uAtlasColumns;
+    vec3 uBgColor;
+    float uAtlasRows;
+    float uEdgeThreshold; // <= 0 disables edge glyphs
+    float uColorMode;     // 0 scene, 1 tint, 2 palette
+    float uInvert;
+    float uBgAlpha;       // 0 transparent, 1 opaque uBgColor
+    float uCharCount;
+    float uFirstStep;     // 1 skips a leading blank, see firstInkedStep
+} params;
+
+layout(std140) uniform Palette {
+    vec4 info; // x = colour count
+    vec4 colors[${MAX_PALETTE_SIZE}];
+} palette;
+
+// The mesh pass renders bottom-up, but cells are laid out from the top-left
+vec4 sampleScene(sampler2D tex, vec2 uv) {
+    return textureLod(tex, vec2(uv.x, 1.0 - uv.y), 0.0);
+}
+
+vec3 quantize(vec3 color) {
+    vec3 best = palette.colors[0].rgb;
+    float bestDistance = 1e9;
+    for (int i = 0; i < ${MAX_PALETTE_SIZE}; i++) {
+        if (i >= int(palette.info.x)) break;
+        vec3 d = palette.colors[i].rgb - color;
+        float distance = dot(d, d);
+        if (distance < bestDistance) {
+            best = palette.colors[i].rgb;
+            bestDistance = distance;
+        }
+    }
+    return best;
+}
+
+const float SOBEL_X[9] = float[9](-1.0, 0.0, 1.0, -2.0, 0.0, 2.0, -1.0, 0.0, 1.0);
+const float SOBEL_Y[9] = float[9](-1.0, -2.0, -1.0, 0.0, 0.0, 0.0, 1.0, 2.0, 1.0);
+
+struct Edge {
+    float strength;
+    float glyph; // index into EDGE_CHARS
+    vec4 color;
+};
+
+Edge detectEdge(vec2 cellCenter, vec2 cellSize) {
+    vec4 gx = vec4(0.0);
+    vec4 gy = vec4(0.0);
+    float coverageGy = 0.0;
+    vec4 colorSum = vec4(0.0);
+
+    for (int i = 0; i < 9; i++) {
+        vec2 offset = vec2(float(i % 3) - 1.0, float(i / 3) - 1.0) * 0.5 * cellSize;
+        vec4 surface = sampleScene(tSurface, cellCenter + offset);
+        gx += surface * SOBEL_X[i];
+        gy += surface * SOBEL_Y[i];
+        coverageGy += (surface.w > 0.0 ? 1.0 : 0.0) * SOBEL_Y[i];
+
+        vec4 color = sampleScene(tDiffuse, cellCenter + offset);
+        colorSum += vec4(color.rgb * color.a, color.a);
+    }
+
+    float jxx = dot(gx, gx);
+    float jyy = dot(gy, gy);
+    float jxy = dot(gx, gy);
+
+    // Gradient angle in [0, pi), y pointing down; the edge runs perpendicular to it
+    float angle = 0.5 * atan(2.0 * jxy, jxx - jyy);
+    int bucket = int(round((angle + 3.14159265) / 0.78539816)) % 4;
+    float glyph = float(bucket);
+    // Horizontal edge with the solid above it sits on the baseline
+    if (bucket == 2 && coverageGy < 0.0) {
+        glyph = 4.0;
+    }
+
+    return Edge(sqrt(jxx + jyy), glyph, vec4(colorSum.rgb / max(colorSum.a, 1e-4), 1.0));
+}
+
+struct Cell {
+    float charIndex;
+    vec4 color; // glyph colour, a = scene coverage
+};
+
+Cell computeCell(vec2 cellUv, vec2 gridDims) {
+    vec4 sceneColor = sampleScene(tDiffuse, cellUv);
+    float luma = dot(sceneColor.rgb, vec3(0.299, 0.587, 0.114));
+    float luminance = params.uInvert > 0.5 ? luma : 1.0 - luma;
+
+    float charIndex = params.uFirstStep + floor(luminance * (params.uCharCount - 1.0 - params.uFirstStep));
+
+    // Edge glyphs are off by default, so skip the 18 samples unless they're wanted
+    if (params.uEdgeThreshold > 0.0) {
+        Edge edge = detectEdge(cellUv + 0.5 / gridDims, 1.0 / gridDims);
+        if (edge.strength > params.uEdgeThreshold) {
+            charIndex = params.uCharCount + edge.glyph;
+            sceneColor = edge.color;
+        }
+    }
+
+    vec3 glyphColor = sceneColor.rgb;
+    if (params.uColorMode > 1.5) {
+        glyphColor = quantize(sceneColor.rgb);
+    } else if (params.uColorMode > 0.5) {
+        glyphColor = params.uColor;
+    }
+
+    return Cell(charIndex, vec4(glyphColor, sceneColor.a));
+}
+`;
+
+export const asciiFragmentShaderGlsl = `${asciiCommonGlsl}
+in vec2 vUv;
+
+out vec4 outColor;
+
+void main() {
+    vec2 gridDims = params.uResolution / params.uCellSize;
+    vec2 cellUv = floor(vUv * gridDims) / gridDims;
+    vec2 uvInCell = fract(vUv * gridDims);
+    Cell cell = computeCell(cellUv, gridDims);
+
+    vec2 atlasCell = vec2(mod(cell.charIndex, params.uAtlasColumns), floor(cell.charIndex / params.uAtlasColumns));
+    float fontU = (atlasCell.x + uvInCell.x) / params.uAtlasColumns;
+    float fontV = (atlasCell.y + uvInCell.y) / params.uAtlasRows;
+
+    vec4 fontColor = texture(tFont, vec2(fontU, fontV));
+
+    if (params.uBgAlpha > 0.5) {
+        outColor = vec4(mix(params.uBgColor, cell.color.rgb, fontColor.r * cell.color.a), 1.0);
+    } else {
+        outColor = vec4(cell.color.rgb * fontColor.r, cell.color.a * fontColor.r);
+    }
+}
+`;
+
+// One fragment per cell into a grid-sized RGBA32F target: rgb = glyph colour,
+// a = atlas index, or -1 where the cell is empty. Fragment row k is cell row k, so
+// readPixels returns the rows top-down.
+export const asciiCellShaderGlsl = `${asciiCommonGlsl}
+out vec4 outCell;
+
+void main() {
+    vec2 gridDims = params.uResolution / params.uCellSize;
+    Cell cell = computeCell(floor(gl_FragCoord.xy) / gridDims, gridDims);
+    outCell = vec4(cell.color.rgb, cell.color.a > 0.0 ? cell.charIndex : -1.0);
+}
+`;
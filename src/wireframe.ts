@@ -0,0 +1,138 @@
+import type { mat4 } from 'gl-matrix';
+import type { Vec3 } from './geometries/vec3';
+
+/**
+ * - solid: shaded faces only
+ * - overlay: shaded faces with their visible edges on top
+ * - hidden-line: only the edges the faces don't hide
+ * - wireframe: every edge, front and back
+ */
+export type WireframeMode = 'solid' | 'overlay' | 'hidden-line' | 'wireframe';
+
+export const WIREFRAME_MODES: WireframeMode[] = ['solid', 'overlay', 'hidden-line', 'wireframe'];
+
+export interface WireframeOptions {
+    mode: WireframeMode;
+    color: Vec3;
+    // In ASCII cells, so one cell keeps lines unbroken at any font size
+    lineWidth: number;
+}
+
+export const DEFAULT_WIREFRAME_OPTIONS: WireframeOptions = {
+    mode: 'solid',
+    color: [1, 1, 1],
+    lineWidth: 1,
+};
+
+// Fraction of the distance to the camera edges are pulled forward, so they win the
+// depth test against the faces they border
+const DEPTH_PULL = 0.01;
+
+// viewProjection, color, camera, resolution + width + pull
+export const LINE_UNIFORM_SIZE = 64 + 3 * 16;
+
+/**
+ * Packs the `LineParams` struct of lineShader; `width` is in output pixels.
+ */
+export function packLineUniforms(options: WireframeOptions, viewProjection: mat4, cameraPosition: Vec3, width: number, height: number, lineWidth: number): Float32Array<ArrayBuffer> {
+    const data = new Float32Array(LINE_UNIFORM_SIZE / 4);
+    data.set(viewProjection, 0);
+    data.set([...options.color, 1], 16);
+    data.set([...cameraPosition, 0], 20);
+    data.set([width, height, lineWidth, DEPTH_PULL], 24);
+    return data;
+}
+
+// One instance per edge: start and end point, from edgeSegments
+export const lineVertexBufferLayout: GPUVertexBufferLayout = {
+    arrayStride: 24,
+    stepMode: 'instance',
+    attributes: [
+        { format: 'float32x3', offset: 0, shaderLocation: 0 },
+        { format: 'float32x3', offset: 12, shaderLocation: 1 },
+    ],
+};
+
+// Vertices per edge: a quad of two triangles
+export const LINE_VERTEX_COUNT = 6;
+
+/**
+ * Draws each edge as a screen-space quad of constant pixel width with square caps,
+ * into the same colour and surface targets as the mesh pass so the ASCII stage picks
+ * lines up like any other surface.
+ */
+export const lineShader = `
+struct MeshUniforms {
+    mvp: mat4x4f,
+    model: mat4x4f,
+    normalMatrix: mat4x4f,
+}
+
+struct LineParams {
+    viewProjection: mat4x4f,
+    color: vec4f,
+    camera: vec4f,
+    resolution: vec2f,
+    width: f32, // output pixels
+    pull: f32,  // fraction of the way to the camera
+}
+
+@group(0) @binding(0) var<uniform> mesh: MeshUniforms;
+@group(0) @binding(1) var<uniform> line: LineParams;
+
+struct VertexOutput {
+    @builtin(position) pos: vec4f,
+    @location(0) worldPos: vec3f,
+}
+
+// x: 0 at the start, 1 at the end; y: side of the line
+const CORNERS = array<vec2f, 6>(
+    vec2f(0.0, -1.0), vec2f(1.0, -1.0), vec2f(1.0, 1.0),
+    vec2f(0.0, -1.0), vec2f(1.0, 1.0), vec2f(0.0, 1.0),
+);
+
+fn project(position: vec3f) -> vec4f {
+    let world = (mesh.model * vec4f(position, 1.0)).xyz;
+    let clip = line.viewProjection * vec4f(world, 1.0);
+    // The pulled point only lends its depth: orthographic view rays don't pass through
+    // the camera, so using it whole would slide edges sideways
+    let pulled = line.viewProjection * vec4f(mix(world, line.camera.xyz, line.pull), 1.0);
+    return vec4f(clip.xy, pulled.z / pulled.w * clip.w, clip.w);
+}
+
+@vertex
+fn vertexMain(@builtin(vertex_index) index: u32, @location(0) start: vec3f, @location(1) end: vec3f) -> VertexOutput {
+    let corner = CORNERS[index];
+    let a = project(start);
+    let b = project(end);
+
+    // Direction in pixels; edges seen end-on still get a square dot
+    let pixels = 0.5 * line.resolution;
+    let delta = (b.xy / b.w - a.xy / a.w) * pixels;
+    let span = length(delta);
+    let direction = select(vec2f(1.0, 0.0), delta / span, span > 1e-4);
+    let normal = vec2f(-direction.y, direction.x);
+    let offset = (direction * (corner.x * 2.0 - 1.0) + normal * corner.y) * 0.5 * line.width / pixels;
+
+    let clip = select(a, b, corner.x > 0.5);
+    var out: VertexOutput;
+    out.pos = vec4f(clip.xy + offset * clip.w, clip.zw);
+    out.worldPos = (mesh.model * vec4f(select(start, end, corner.x > 0.5), 1.0)).xyz;
+    return out;
+}
+
+struct FragmentOutput {
+    @location(0) color: vec4f,
+    // Faces the camera, so lines stand out from the surface behind them
+    @location(1) surface: vec4f,
+}
+
+@fragment
+fn fragmentMain(@location(0) worldPos: vec3f) -> FragmentOutput {
+    let distance = length(line.camera.xyz - worldPos);
+    return FragmentOutput(
+        line.color,
+        vec4f(0.0, 0.0, 1.0, length(line.camera.xyz) / max(distance, 1e-3)),
+    );
+}
+`;
@@ -0,0 +1,14 @@
+import { expect, test } from 'bun:test';
+import { readFileSync } from 'node:fs';
+import { COVERAGE_SORTED_RAMPS, RAMP_PRESETS, orderRampByCoverage } from '../src/ascii-tg-shader';
+
+// Written by scripts/measure-coverage.ts
+const coverage: Record<string, number> = JSON.parse(readFileSync(new URL('./fixtures/glyph-coverage.json', import.meta.url), 'utf8'));
+
+test('COVERAGE_SORTED_RAMPS matches the measured coverage', () => {
+    for (const [name, ramp] of Object.entries(RAMP_PRESETS)) {
+        const chars = Array.from(ramp);
+        const sorted = orderRampByCoverage(chars, chars.map(char => coverage[char])).chars.join('');
+        expect(`${name}: ${COVERAGE_SORTED_RAMPS[name]}`).toBe(`${name}: ${sorted}`);
+    }
+});
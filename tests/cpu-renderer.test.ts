@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'bun:test';
+import { renderAsciiFrame } from '../src/cpu-renderer';
+import { CubeGeometry } from '../src/geometries/cube';
+import { DEFAULT_LIGHTING } from '../src/lighting';
+
+const options = {
+    columns: 32,
+    rows: 16,
+    rotation: { x: 0.5, y: 0.6 },
+    lighting: { ...DEFAULT_LIGHTING, textured: false },
+};
+
+describe('renderAsciiFrame', () => {
+    test('draws a cube at a fixed rotation', () => {
+        // Top face brightest, then the right face, then the left
+        expect(renderAsciiFrame(new CubeGeometry(), options).lines).toEqual([
+            '                                ',
+            '                                ',
+            '                                ',
+            '                                ',
+            '              .....             ',
+            '            ..........          ',
+            '            %%.....:::          ',
+            '            %%%:::::::          ',
+            '            %%%:::::::          ',
+            '            %%%::::::           ',
+            '            %%%::::::           ',
+            '             %%::::::           ',
+            '              %:::::            ',
+            '               :::              ',
+            '               :                ',
+            '                                ',
+        ]);
+    });
+
+    test('returns one colour per cell', () => {
+        const frame = renderAsciiFrame(new CubeGeometry(), options);
+        expect(frame.columns).toBe(32);
+        expect(frame.rows).toBe(16);
+        expect(frame.colors.length).toBe(32 * 16 * 3);
+    });
+
+    test('skips a ramp\'s leading blank on the solid', () => {
+        const inked = (charSet: string) => renderAsciiFrame(new CubeGeometry(), { ...options, charSet, invertRamp: true })
+            .lines.join('').replace(/[ \u2800]/g, '').length;
+        expect(inked('blocks')).toBe(inked('simple'));
+        expect(inked('braille')).toBe(inked('simple'));
+        expect(inked('standard')).toBe(inked('simple'));
+    });
+
+    test('flips the ramp when inverted', () => {
+        const lines = renderAsciiFrame(new CubeGeometry(), { ...options, invertRamp: true }).lines;
+        // The top face, the brightest, takes a dense glyph instead of the sparsest
+        expect(lines[5].trim()).toBe('#'.repeat(10));
+    });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, test } from 'bun:test';
+import { edgeSegments } from '../src/geometries/edges';
+import type { Geometry } from '../src/geometries/geometry';
+import { MeshGeometry } from '../src/geometries/mesh';
+import { createGeometry } from '../src/geometries/shapes';
+
+// Six numbers per segment: both endpoints
+const edgeCount = (geometry: Geometry) => edgeSegments(geometry).length / 6;
+
+// The same triangles without the polygon faces, so edgeSegments has to find the creases
+const asMesh = (geometry: Geometry) => new MeshGeometry(geometry.getVertices(), geometry.getIndices());
+
+const EXPECTED: Record<string, number> = {
+    tetrahedron: 6,
+    cube: 12,
+    octahedron: 12,
+    dodecahedron: 30,
+    icosahedron: 30,
+    tI: 90,
+};
+
+describe('edgeSegments', () => {
+    test('counts the polygon edges of polyhedra', () => {
+        for (const [shape, count] of Object.entries(EXPECTED)) {
+            expect(`${shape}: ${edgeCount(createGeometry(shape))}`).toBe(`${shape}: ${count}`);
+        }
+    });
+
+    test('finds the same edges in plain triangle meshes', () => {
+        for (const [shape, count] of Object.entries(EXPECTED)) {
+            expect(`${shape}: ${edgeCount(asMesh(createGeometry(shape)))}`).toBe(`${shape}: ${count}`);
+        }
+    });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'bun:test';
+import { lzwEncode } from '../src/encoders/gif';
+
+// A plain GIF LZW decoder, widening codes the way image viewers do
+function lzwDecode(blocks: number[]): number[] {
+    const minCodeSize = blocks[0];
+    const bytes: number[] = [];
+    for (let i = 1; blocks[i] !== 0; i += blocks[i] + 1) {
+        bytes.push(...blocks.slice(i + 1, i + 1 + blocks[i]));
+    }
+
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    let codeSize = minCodeSize + 1;
+    let table: number[][] = [];
+    let previous: number[] | null = null;
+    const output: number[] = [];
+    let bit = 0;
+
+    const reset = () => {
+        table = Array.from({ length: clearCode }, (_, i) => [i]);
+        table.push([], []);
+        codeSize = minCodeSize + 1;
+        previous = null;
+    };
+    reset();
+
+    while (bit + codeSize <= bytes.length * 8) {
+        let code = 0;
+        for (let k = 0; k < codeSize; k++, bit++) {
+            code |= ((bytes[bit >> 3] >> (bit & 7)) & 1) << k;
+        }
+        if (code === clearCode) {
+            reset();
+            continue;
+        }
+        if (code === endCode) return output;
+
+        const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+        output.push(...entry);
+        if (previous && table.length < 4096) {
+            table.push([...previous, entry[0]]);
+            if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+        }
+        previous = entry;
+    }
+    throw new Error('LZW stream has no end code');
+}
+
+// Repeatable noise with runs, so the table fills at varied rates
+function indices(length: number, colors: number, seed: number): Uint8Array {
+    let state = seed;
+    return Uint8Array.from({ length }, () => {
+        state = (state * 1103515245 + 12345) & 0x7fffffff;
+        return (state >> 16) % colors;
+    });
+}
+
+describe('lzwEncode', () => {
+    test('round-trips through a decoder', () => {
+        for (const minCodeSize of [2, 4, 8]) {
+            for (let length = 1; length <= 400; length++) {
+                const data = indices(length, Math.min(1 << minCodeSize, 5), length);
+                expect(lzwDecode(lzwEncode(data, minCodeSize))).toEqual(Array.from(data));
+            }
+        }
+    });
+
+    test('round-trips past a full table', () => {
+        const data = indices(60000, 256, 7);
+        expect(lzwDecode(lzwEncode(data, 8))).toEqual(Array.from(data));
+    });
+});
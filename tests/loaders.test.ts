@@ -0,0 +1,85 @@
+import { describe, expect, test } from 'bun:test';
+import { readFileSync } from 'node:fs';
+import { readAttribute } from '../src/geometries/mesh';
+import { type Vec3, cross, sub } from '../src/geometries/vec3';
+import { parseObj } from '../src/loaders/obj';
+import { loadStlGeometry, parseStl } from '../src/loaders/stl';
+import { type GltfDocument, loadGltfBuffers, parseGlb, parseGltf } from '../src/loaders/gltf';
+import type { RawMesh } from '../src/loaders/model';
+
+function fixture(name: string): ArrayBuffer {
+    return new Uint8Array(readFileSync(new URL(`./fixtures/${name}`, import.meta.url))).buffer;
+}
+
+// Unnormalized face normal of each triangle, from its winding
+function faceNormals(mesh: RawMesh): Vec3[] {
+    const normals: Vec3[] = [];
+    for (let t = 0; t + 2 < mesh.indices.length; t += 3) {
+        const [a, b, c] = [0, 1, 2].map(k => mesh.positions[mesh.indices[t + k]]);
+        normals.push(cross(sub(b, a), sub(c, a)));
+    }
+    return normals;
+}
+
+describe('parseObj', () => {
+    const mesh = parseObj(new TextDecoder().decode(fixture('square.obj')));
+
+    test('resolves negative indices against the entries so far', () => {
+        expect(mesh.indices.slice(0, 3).map(i => mesh.positions[i])).toEqual([[0, 0, 0], [1, 0, 0], [1, 1, 0]]);
+        expect(faceNormals(mesh).map(n => n[2] > 0)).toEqual([true, true]);
+    });
+
+    test('drops UVs and normals some corners leave out', () => {
+        expect(mesh.uvs).toBeNull();
+        expect(mesh.normals).toBeNull();
+    });
+
+    test('keeps normals every corner has', () => {
+        const partial = parseObj('v 0 0 0\nv 1 0 0\nv 0 1 0\nvt 0 0\nvn 0 0 1\nf 1/1/1 2//1 3//1\n');
+        expect(partial.uvs).toBeNull();
+        expect(partial.normals).toEqual([[0, 0, 1], [0, 0, 1], [0, 0, 1]]);
+    });
+
+    test('rejects values that are not numbers', () => {
+        expect(() => parseObj('v 0 0 0\nv 1 x 0\n')).toThrow('OBJ line 2: invalid number "x"');
+        expect(() => parseObj('vn 0 1\n')).toThrow('OBJ line 1: invalid number ""');
+        expect(() => parseObj('v 0 0 0\nf 1 2 3\n')).toThrow('OBJ line 2: index 2 out of range');
+    });
+});
+
+describe('parseStl', () => {
+    test('reads ASCII and binary alike', () => {
+        const ascii = parseStl(fixture('triangle-ascii.stl'));
+        expect(ascii.positions).toEqual([[0, 0, 0], [1, 0, 0], [0, 0, 2]]);
+        // The binary fixture's header starts with "solid" too
+        expect(parseStl(fixture('triangle.stl'))).toEqual(ascii);
+    });
+
+    test('turns Z-up models upright', () => {
+        const geometry = loadStlGeometry(fixture('triangle.stl'));
+        const { min, max } = geometry.getBoundingBox();
+        expect(max[1] - min[1]).toBeCloseTo(1.6);
+        expect(max[0] - min[0]).toBeCloseTo(0.8);
+        // The facet faced -Y in the file, so towards the camera once Z is up
+        for (const normal of readAttribute(geometry, 'normal')!) {
+            expect(normal[2]).toBeCloseTo(1);
+        }
+    });
+});
+
+describe('parseGltf', () => {
+    test('keeps mirrored nodes facing outwards', async () => {
+        const { document, binary } = parseGlb(fixture('mirrored.glb'));
+        const mesh = parseGltf(document, await loadGltfBuffers(document, binary));
+        expect(mesh.positions).toHaveLength(6);
+        expect(faceNormals(mesh).map(n => n[2] > 0)).toEqual([true, true]);
+    });
+
+    test('rejects sparse accessors', () => {
+        const document: GltfDocument = {
+            meshes: [{ primitives: [{ attributes: { POSITION: 0 } }] }],
+            accessors: [{ componentType: 5126, count: 3, type: 'VEC3', sparse: { count: 1 } }],
+        };
+        expect(() => parseGltf(document, [])).toThrow('glTF accessor 0: unsupported sparse accessor');
+    });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, spyOn, test } from 'bun:test';
+import { readdirSync, readFileSync } from 'node:fs';
+import { parseSceneConfig, sceneConfigFromParams, type SceneConfigPatch } from '../src/scene-config';
+
+describe('parseSceneConfig', () => {
+    test('accepts the shipped presets', () => {
+        const presets = new URL('../public/presets/', import.meta.url);
+        for (const file of readdirSync(presets)) {
+            const json = JSON.parse(readFileSync(new URL(file, presets), 'utf8'));
+            expect(parseSceneConfig(json)).toEqual(json);
+        }
+    });
+
+    test('checks nested fields against the defaults', () => {
+        expect(() => parseSceneConfig({ ascii: { fontSize: 'x' } })).toThrow('"ascii.fontSize"');
+        expect(() => parseSceneConfig({ ascii: { color: [1, 1] } })).toThrow('"ascii.color"');
+        expect(() => parseSceneConfig({ camera: { zoom: 2 } })).toThrow('Unknown scene config key "camera.zoom"');
+        expect(parseSceneConfig({ ascii: { columns: 80, background: null } })).toEqual({ ascii: { columns: 80, background: null } });
+    });
+
+    test('checks enums, lights and rotations', () => {
+        expect(() => parseSceneConfig({ lighting: { model: 'phong' } })).toThrow('"lighting.model"');
+        expect(() => parseSceneConfig({ camera: { projection: 'fisheye' } })).toThrow('"camera.projection"');
+        expect(() => parseSceneConfig({ ascii: { colorMode: 'sepia' } })).toThrow('"ascii.colorMode"');
+        expect(() => parseSceneConfig({ ascii: { palette: 'vga' } })).toThrow('"ascii.palette"');
+        expect(() => parseSceneConfig({ lighting: { lights: [{}] } })).toThrow('"lighting.lights"');
+        expect(() => parseSceneConfig({ lighting: { lights: [{ type: 'point', position: [0, 1, 2], color: [1, 1, 1], intensity: 1 }] } }))
+            .toThrow('"lighting.lights"');
+        expect(() => parseSceneConfig({ rotation: [0, 0, 0] })).toThrow('"rotation"');
+        expect(() => parseSceneConfig({ rotation: [0, 0, 'x', 1] })).toThrow('"rotation"');
+        expect(() => parseSceneConfig({ rotation: { x: 1 } })).toThrow('"rotation"');
+
+        const valid: SceneConfigPatch = {
+            rotation: [0, 0, 0, 1],
+            ascii: { colorMode: 'palette', palette: [[0, 0, 0], [1, 1, 1]] },
+            lighting: {
+                model: 'lambert',
+                lights: [
+                    { type: 'directional', direction: [0, 0, -1], color: [1, 1, 1], intensity: 1 },
+                    { type: 'point', position: [0, 1, 2], color: [1, 1, 1], intensity: 1, range: 0 },
+                ],
+            },
+        };
+        expect(parseSceneConfig(valid)).toEqual(valid);
+    });
+
+    test('accepts only shapes createGeometry can build', () => {
+        expect(parseSceneConfig({ shape: 'Cube' })).toEqual({ shape: 'Cube' });
+        expect(parseSceneConfig({ shape: 'dtI' })).toEqual({ shape: 'dtI' });
+        for (const shape of ['foo', 'teapot', 'solid', 'constructor', '']) {
+            expect(() => parseSceneConfig({ shape })).toThrow('"shape"');
+        }
+        expect(() => parseSceneConfig({ toString: 'x' })).toThrow('Unknown scene config key "toString"');
+    });
+});
+
+describe('sceneConfigFromParams', () => {
+    test('skips only the keys that fail', () => {
+        const warn = spyOn(console, 'warn').mockImplementation(() => {});
+        const params = new URLSearchParams({ shape: 'cube', ascii: '{"fontSize":"x"}', spinSpeed: 'fast', camera: '{"distance":3}' });
+        expect(sceneConfigFromParams(params)).toEqual({ shape: 'cube', camera: { distance: 3 } });
+        expect(warn).toHaveBeenCalledTimes(2);
+        warn.mockRestore();
+    });
+});